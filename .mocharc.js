@@ -19,6 +19,7 @@ module.exports = {
         './test/cases/httpsJSON.test.ts',
         './test/cases/wss.test.ts',
         './test/cases/wssJSON.test.ts',
+        './test/cases/lightweight*.test.ts',
 
     ],
     // parallel: false,
@@ -0,0 +1,551 @@
+/**
+ * 轻量级二进制编解码器
+ * 基于MessagePack格式，额外通过扩展类型支持 Date、bigint 和 undefined，
+ * Uint8Array（及其他TypedArray/ArrayBuffer）以bin类型存储
+ */
+
+/**
+ * 序列化负载的首字节，用于区分JSON和二进制负载
+ */
+export enum LightweightPayloadHeader {
+  /** 首字节之后为UTF-8编码的JSON */
+  Json = 0x00,
+  /** 首字节之后为二进制编码 */
+  Binary = 0x01,
+}
+
+/**
+ * 扩展类型编号（MessagePack中-1为官方Timestamp）
+ */
+const EXT_DATE = -1
+const EXT_BIGINT = 1
+const EXT_UNDEFINED = 2
+
+/**
+ * 轻量级二进制编解码器
+ */
+export class LightweightBinaryCodec {
+  private buf: Uint8Array = new Uint8Array(256)
+  private view: DataView = new DataView(this.buf.buffer)
+  private pos = 0
+
+  private readonly textEncoder = new TextEncoder()
+  private readonly textDecoder = new TextDecoder()
+
+  /**
+   * 编码任意值
+   */
+  encode(value: any): Uint8Array {
+    this.pos = 0
+    this.write(value)
+    return this.buf.slice(0, this.pos)
+  }
+
+  /**
+   * 解码数据，数据不完整或有多余字节时抛出异常
+   */
+  decode(data: Uint8Array): any {
+    const reader = new BinaryReader(data, this.textDecoder)
+    const value = reader.read()
+    if (reader.pos !== data.length) {
+      throw new Error(`Unexpected trailing bytes at offset ${reader.pos}`)
+    }
+    return value
+  }
+
+  /**
+   * 判断数据中是否包含JSON无法表示的值，这类数据只能使用二进制编码
+   */
+  static requiresBinary(value: any, depth = 0): boolean {
+    if (value === undefined || typeof value === "bigint") {
+      return true
+    }
+    if (value === null || typeof value !== "object") {
+      return false
+    }
+    if (value instanceof Date || ArrayBuffer.isView(value) || value instanceof ArrayBuffer) {
+      return true
+    }
+    // 防止循环引用导致栈溢出，交给JSON.stringify报错
+    if (depth > 100) {
+      return false
+    }
+    if (Array.isArray(value)) {
+      return value.some(v => LightweightBinaryCodec.requiresBinary(v, depth + 1))
+    }
+    for (const key in value) {
+      if (
+        Object.prototype.hasOwnProperty.call(value, key) &&
+        LightweightBinaryCodec.requiresBinary(value[key], depth + 1)
+      ) {
+        return true
+      }
+    }
+    return false
+  }
+
+  private write(value: any): void {
+    switch (typeof value) {
+      case "undefined":
+        this.writeExt(EXT_UNDEFINED, new Uint8Array(0))
+        return
+      case "boolean":
+        this.writeUint8(value ? 0xc3 : 0xc2)
+        return
+      case "number":
+        this.writeNumber(value)
+        return
+      case "bigint":
+        this.writeExt(EXT_BIGINT, this.bigintToBytes(value))
+        return
+      case "string":
+        this.writeString(value)
+        return
+      case "object":
+        break
+      default:
+        throw new Error(`Unsupported type for binary encoding: ${typeof value}`)
+    }
+
+    if (value === null) {
+      this.writeUint8(0xc0)
+    } else if (value instanceof Date) {
+      this.writeDate(value)
+    } else if (value instanceof ArrayBuffer) {
+      this.writeBinary(new Uint8Array(value))
+    } else if (ArrayBuffer.isView(value)) {
+      this.writeBinary(new Uint8Array(value.buffer, value.byteOffset, value.byteLength))
+    } else if (Array.isArray(value)) {
+      this.writeArray(value)
+    } else if (typeof value.toJSON === "function") {
+      // 与JSON序列化保持一致
+      this.write(value.toJSON())
+    } else {
+      this.writeMap(value)
+    }
+  }
+
+  private writeNumber(value: number): void {
+    if (Number.isInteger(value) && !Object.is(value, -0)) {
+      if (value >= 0) {
+        if (value < 0x80) {
+          this.writeUint8(value)
+          return
+        }
+        if (value <= 0xff) {
+          this.writeUint8(0xcc)
+          this.writeUint8(value)
+          return
+        }
+        if (value <= 0xffff) {
+          this.writeUint8(0xcd)
+          this.writeUint16(value)
+          return
+        }
+        if (value <= 0xffffffff) {
+          this.writeUint8(0xce)
+          this.writeUint32(value)
+          return
+        }
+      } else {
+        if (value >= -0x20) {
+          this.writeUint8(0xe0 | (value + 0x20))
+          return
+        }
+        if (value >= -0x80) {
+          this.writeUint8(0xd0)
+          this.ensure(1)
+          this.view.setInt8(this.pos++, value)
+          return
+        }
+        if (value >= -0x8000) {
+          this.writeUint8(0xd1)
+          this.ensure(2)
+          this.view.setInt16(this.pos, value)
+          this.pos += 2
+          return
+        }
+        if (value >= -0x80000000) {
+          this.writeUint8(0xd2)
+          this.ensure(4)
+          this.view.setInt32(this.pos, value)
+          this.pos += 4
+          return
+        }
+      }
+    }
+
+    // 其余数值（小数、超出32位的整数、NaN、Infinity）使用float64
+    this.writeUint8(0xcb)
+    this.ensure(8)
+    this.view.setFloat64(this.pos, value)
+    this.pos += 8
+  }
+
+  private writeString(value: string): void {
+    const bytes = this.textEncoder.encode(value)
+    const length = bytes.length
+    if (length < 32) {
+      this.writeUint8(0xa0 | length)
+    } else if (length <= 0xff) {
+      this.writeUint8(0xd9)
+      this.writeUint8(length)
+    } else if (length <= 0xffff) {
+      this.writeUint8(0xda)
+      this.writeUint16(length)
+    } else {
+      this.writeUint8(0xdb)
+      this.writeUint32(length)
+    }
+    this.writeBytes(bytes)
+  }
+
+  private writeBinary(bytes: Uint8Array): void {
+    const length = bytes.length
+    if (length <= 0xff) {
+      this.writeUint8(0xc4)
+      this.writeUint8(length)
+    } else if (length <= 0xffff) {
+      this.writeUint8(0xc5)
+      this.writeUint16(length)
+    } else {
+      this.writeUint8(0xc6)
+      this.writeUint32(length)
+    }
+    this.writeBytes(bytes)
+  }
+
+  private writeArray(value: any[]): void {
+    const length = value.length
+    if (length < 16) {
+      this.writeUint8(0x90 | length)
+    } else if (length <= 0xffff) {
+      this.writeUint8(0xdc)
+      this.writeUint16(length)
+    } else {
+      this.writeUint8(0xdd)
+      this.writeUint32(length)
+    }
+    for (const item of value) {
+      this.write(item)
+    }
+  }
+
+  private writeMap(value: Record<string, any>): void {
+    const keys = Object.keys(value).filter(key => typeof value[key] !== "function")
+    const length = keys.length
+    if (length < 16) {
+      this.writeUint8(0x80 | length)
+    } else if (length <= 0xffff) {
+      this.writeUint8(0xde)
+      this.writeUint16(length)
+    } else {
+      this.writeUint8(0xdf)
+      this.writeUint32(length)
+    }
+    for (const key of keys) {
+      this.writeString(key)
+      this.write(value[key])
+    }
+  }
+
+  /**
+   * Date使用MessagePack Timestamp 96格式：uint32纳秒 + int64秒
+   */
+  private writeDate(value: Date): void {
+    const time = value.getTime()
+    if (isNaN(time)) {
+      throw new Error("Cannot encode invalid Date")
+    }
+    const sec = Math.floor(time / 1000)
+    const nsec = (time - sec * 1000) * 1e6
+    const payload = new Uint8Array(12)
+    const view = new DataView(payload.buffer)
+    view.setUint32(0, nsec)
+    view.setBigInt64(4, BigInt(sec))
+    this.writeExt(EXT_DATE, payload)
+  }
+
+  private writeExt(type: number, payload: Uint8Array): void {
+    const length = payload.length
+    if (length <= 0xff) {
+      this.writeUint8(0xc7)
+      this.writeUint8(length)
+    } else if (length <= 0xffff) {
+      this.writeUint8(0xc8)
+      this.writeUint16(length)
+    } else {
+      this.writeUint8(0xc9)
+      this.writeUint32(length)
+    }
+    this.ensure(1)
+    this.view.setInt8(this.pos++, type)
+    this.writeBytes(payload)
+  }
+
+  /**
+   * bigint编码为：符号字节（0正 1负）+ 大端序绝对值
+   */
+  private bigintToBytes(value: bigint): Uint8Array {
+    const negative = value < BigInt(0)
+    let abs = negative ? -value : value
+    const bytes: number[] = []
+    const mask = BigInt(0xff)
+    const shift = BigInt(8)
+    while (abs > BigInt(0)) {
+      bytes.unshift(Number(abs & mask))
+      abs >>= shift
+    }
+    return new Uint8Array([negative ? 1 : 0, ...bytes])
+  }
+
+  private writeUint8(value: number): void {
+    this.ensure(1)
+    this.buf[this.pos++] = value
+  }
+
+  private writeUint16(value: number): void {
+    this.ensure(2)
+    this.view.setUint16(this.pos, value)
+    this.pos += 2
+  }
+
+  private writeUint32(value: number): void {
+    this.ensure(4)
+    this.view.setUint32(this.pos, value)
+    this.pos += 4
+  }
+
+  private writeBytes(bytes: Uint8Array): void {
+    this.ensure(bytes.length)
+    this.buf.set(bytes, this.pos)
+    this.pos += bytes.length
+  }
+
+  private ensure(size: number): void {
+    if (this.pos + size <= this.buf.length) {
+      return
+    }
+    let newLength = this.buf.length * 2
+    while (newLength < this.pos + size) {
+      newLength *= 2
+    }
+    const newBuf = new Uint8Array(newLength)
+    newBuf.set(this.buf.subarray(0, this.pos))
+    this.buf = newBuf
+    this.view = new DataView(newBuf.buffer)
+  }
+}
+
+/**
+ * 二进制读取器
+ */
+class BinaryReader {
+  pos = 0
+  private readonly view: DataView
+
+  constructor(
+    private readonly data: Uint8Array,
+    private readonly textDecoder: TextDecoder
+  ) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  }
+
+  read(): any {
+    const byte = this.readUint8()
+
+    // positive fixint
+    if (byte < 0x80) {
+      return byte
+    }
+    // fixmap
+    if (byte < 0x90) {
+      return this.readMap(byte & 0x0f)
+    }
+    // fixarray
+    if (byte < 0xa0) {
+      return this.readArray(byte & 0x0f)
+    }
+    // fixstr
+    if (byte < 0xc0) {
+      return this.readString(byte & 0x1f)
+    }
+    // negative fixint
+    if (byte >= 0xe0) {
+      return byte - 0x100
+    }
+
+    switch (byte) {
+      case 0xc0:
+        return null
+      case 0xc2:
+        return false
+      case 0xc3:
+        return true
+      case 0xc4:
+        return this.readBytes(this.readUint8()).slice()
+      case 0xc5:
+        return this.readBytes(this.readUint16()).slice()
+      case 0xc6:
+        return this.readBytes(this.readUint32()).slice()
+      case 0xc7:
+        return this.readExt(this.readUint8())
+      case 0xc8:
+        return this.readExt(this.readUint16())
+      case 0xc9:
+        return this.readExt(this.readUint32())
+      case 0xca:
+        return this.advance(4, () => this.view.getFloat32(this.pos))
+      case 0xcb:
+        return this.advance(8, () => this.view.getFloat64(this.pos))
+      case 0xcc:
+        return this.readUint8()
+      case 0xcd:
+        return this.readUint16()
+      case 0xce:
+        return this.readUint32()
+      case 0xcf:
+        return this.toSafeNumber(this.advance(8, () => this.view.getBigUint64(this.pos)))
+      case 0xd0:
+        return this.advance(1, () => this.view.getInt8(this.pos))
+      case 0xd1:
+        return this.advance(2, () => this.view.getInt16(this.pos))
+      case 0xd2:
+        return this.advance(4, () => this.view.getInt32(this.pos))
+      case 0xd3:
+        return this.toSafeNumber(this.advance(8, () => this.view.getBigInt64(this.pos)))
+      case 0xd4:
+        return this.readExt(1)
+      case 0xd5:
+        return this.readExt(2)
+      case 0xd6:
+        return this.readExt(4)
+      case 0xd7:
+        return this.readExt(8)
+      case 0xd8:
+        return this.readExt(16)
+      case 0xd9:
+        return this.readString(this.readUint8())
+      case 0xda:
+        return this.readString(this.readUint16())
+      case 0xdb:
+        return this.readString(this.readUint32())
+      case 0xdc:
+        return this.readArray(this.readUint16())
+      case 0xdd:
+        return this.readArray(this.readUint32())
+      case 0xde:
+        return this.readMap(this.readUint16())
+      case 0xdf:
+        return this.readMap(this.readUint32())
+      default:
+        throw new Error(`Invalid binary type byte 0x${byte.toString(16)} at offset ${this.pos - 1}`)
+    }
+  }
+
+  private readArray(length: number): any[] {
+    const arr = new Array(length)
+    for (let i = 0; i < length; ++i) {
+      arr[i] = this.read()
+    }
+    return arr
+  }
+
+  private readMap(length: number): Record<string, any> {
+    const obj: Record<string, any> = {}
+    for (let i = 0; i < length; ++i) {
+      const key = this.read()
+      if (typeof key !== "string" && typeof key !== "number") {
+        throw new Error(`Invalid map key type at offset ${this.pos}`)
+      }
+      // 使用defineProperty，避免 `__proto__` 键修改原型
+      Object.defineProperty(obj, key, {
+        value: this.read(),
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      })
+    }
+    return obj
+  }
+
+  private readString(length: number): string {
+    return this.textDecoder.decode(this.readBytes(length))
+  }
+
+  private readExt(length: number): any {
+    const type = this.advance(1, () => this.view.getInt8(this.pos))
+    const payload = this.readBytes(length)
+    const payloadView = new DataView(payload.buffer, payload.byteOffset, payload.byteLength)
+
+    switch (type) {
+      case EXT_UNDEFINED:
+        return undefined
+      case EXT_BIGINT: {
+        let value = BigInt(0)
+        for (let i = 1; i < payload.length; ++i) {
+          value = (value << BigInt(8)) | BigInt(payload[i])
+        }
+        return payload[0] === 1 ? -value : value
+      }
+      case EXT_DATE: {
+        // 兼容Timestamp 32/64/96三种格式
+        if (length === 4) {
+          return new Date(payloadView.getUint32(0) * 1000)
+        }
+        if (length === 8) {
+          const high = payloadView.getUint32(0)
+          const low = payloadView.getUint32(4)
+          const nsec = high >>> 2
+          const sec = (high & 0x3) * 0x100000000 + low
+          return new Date(sec * 1000 + nsec / 1e6)
+        }
+        if (length === 12) {
+          const nsec = payloadView.getUint32(0)
+          const sec = Number(payloadView.getBigInt64(4))
+          return new Date(sec * 1000 + nsec / 1e6)
+        }
+        throw new Error(`Invalid timestamp length: ${length}`)
+      }
+      default:
+        throw new Error(`Unknown extension type: ${type}`)
+    }
+  }
+
+  private readUint8(): number {
+    return this.advance(1, () => this.data[this.pos])
+  }
+
+  private readUint16(): number {
+    return this.advance(2, () => this.view.getUint16(this.pos))
+  }
+
+  private readUint32(): number {
+    return this.advance(4, () => this.view.getUint32(this.pos))
+  }
+
+  private readBytes(length: number): Uint8Array {
+    return this.advance(length, () => this.data.subarray(this.pos, this.pos + length))
+  }
+
+  /**
+   * 检查剩余长度后读取，并移动读取位置
+   */
+  private advance<R>(size: number, read: () => R): R {
+    if (this.pos + size > this.data.length) {
+      throw new Error(`Unexpected end of binary data at offset ${this.pos}`)
+    }
+    const value = read()
+    this.pos += size
+    return value
+  }
+
+  /**
+   * 64位整数在安全范围内时返回number，否则保留bigint
+   */
+  private toSafeNumber(value: bigint): number | bigint {
+    return value <= BigInt(Number.MAX_SAFE_INTEGER) && value >= BigInt(Number.MIN_SAFE_INTEGER)
+      ? Number(value)
+      : value
+  }
+}
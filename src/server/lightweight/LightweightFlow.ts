@@ -0,0 +1,96 @@
+import { LightweightCallContext, LightweightMiddleware } from "./LightweightTypes"
+
+/**
+ * 中间件链
+ * 按顺序执行，Koa风格：`await next()` 之后的代码在内层执行完毕后按相反顺序执行
+ *
+ * 中间件不调用next即取消后续执行；需要返回具体错误时，抛出LightweightError即可
+ *
+ * @example
+ * server.flows.preApiCall.push(async (data, context, next) => {
+ *   const start = Date.now()
+ *   await next()
+ *   context.logger.log(`${data.apiName} took ${Date.now() - start}ms`)
+ * })
+ */
+export class LightweightFlow<D = any, C extends object = Record<string, any>> {
+  private middlewares: LightweightMiddleware<D, C>[] = []
+
+  /**
+   * 中间件数量
+   */
+  get length(): number {
+    return this.middlewares.length
+  }
+
+  /**
+   * 追加到链尾
+   */
+  push(middleware: LightweightMiddleware<D, C>): this {
+    this.middlewares.push(middleware)
+    return this
+  }
+
+  /**
+   * 插入到链首
+   */
+  unshift(middleware: LightweightMiddleware<D, C>): this {
+    this.middlewares.unshift(middleware)
+    return this
+  }
+
+  /**
+   * 移除中间件，返回是否找到
+   */
+  remove(middleware: LightweightMiddleware<D, C>): boolean {
+    const index = this.middlewares.indexOf(middleware)
+    if (index === -1) {
+      return false
+    }
+    this.middlewares.splice(index, 1)
+    return true
+  }
+
+  /**
+   * 清空中间件
+   */
+  clear(): void {
+    this.middlewares = []
+  }
+
+  /**
+   * 执行中间件链
+   * @param inner 最内层逻辑，所有中间件都调用next后执行
+   * @returns 是否执行到了最内层（有中间件未调用next时为false）
+   */
+  async exec(
+    data: D,
+    context: LightweightCallContext<C>,
+    inner?: () => Promise<void>
+  ): Promise<boolean> {
+    // 执行期间增删中间件不影响本次执行
+    const middlewares = this.middlewares.slice()
+    let completed = false
+    let lastIndex = -1
+
+    const dispatch = async (index: number): Promise<void> => {
+      if (index <= lastIndex) {
+        throw new Error("next() called multiple times")
+      }
+      lastIndex = index
+
+      if (index === middlewares.length) {
+        completed = true
+        if (inner) {
+          await inner()
+        }
+        return
+      }
+
+      await middlewares[index](data, context, () => dispatch(index + 1))
+    }
+
+    await dispatch(0)
+    return completed
+  }
+}
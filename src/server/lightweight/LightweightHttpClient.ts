@@ -0,0 +1,165 @@
+import {
+  LightweightServiceType,
+  LightweightApiReturn,
+  LightweightSendResult,
+} from "./LightweightTypes"
+import { PROTOCOL_FINGERPRINT_HEADER, RuntimeProtocolGenerator } from "./RuntimeProtocolGenerator"
+
+/**
+ * 轻量级HTTP客户端选项
+ */
+export interface LightweightHttpClientOptions {
+  /** 服务地址，需包含jsonHostPath，如 `http://localhost:3000/api` */
+  server: string
+  /** 使用JSON格式，为false时使用二进制格式 */
+  json: boolean
+  /** 请求超时时间（毫秒），为0时不超时 */
+  timeout: number
+  /** 每个请求都携带的请求头 */
+  headers: Record<string, string>
+  /** 客户端所用协议的指纹，设置后服务端会校验，不一致时返回PROTOCOL_MISMATCH错误 */
+  protocolFingerprint?: string
+}
+
+/**
+ * 单次调用选项
+ */
+export interface LightweightCallOptions {
+  /** 覆盖客户端的超时时间 */
+  timeout?: number
+  /** 附加请求头 */
+  headers?: Record<string, string>
+}
+
+/**
+ * 轻量级HTTP客户端
+ * 根据服务类型提供类型安全的API调用，支持JSON和二进制两种格式
+ *
+ * @example
+ * const client = new LightweightHttpClient<MyService>({ server: "http://localhost:3000/api" })
+ * const ret = await client.callApi("user/login", { username: "admin", password: "123456" })
+ */
+export class LightweightHttpClient<T extends LightweightServiceType = LightweightServiceType> {
+  readonly options: LightweightHttpClientOptions
+  private readonly protocolGenerator = new RuntimeProtocolGenerator()
+  private nextSn = 1
+
+  constructor(options: Partial<LightweightHttpClientOptions> & { server: string }) {
+    this.options = {
+      json: true,
+      timeout: 15000,
+      headers: {},
+      ...options,
+      server: options.server.replace(/\/+$/, ""),
+    }
+  }
+
+  /**
+   * 最后一次调用使用的序号
+   */
+  get lastSn(): number {
+    return this.nextSn - 1
+  }
+
+  /**
+   * 调用API
+   * 网络错误和超时不会抛出异常，而是以 `NetworkError` 类型的错误返回
+   */
+  async callApi<K extends keyof T["api"]>(
+    apiName: K,
+    req: T["api"][K]["req"],
+    options: LightweightCallOptions = {}
+  ): Promise<LightweightApiReturn<T["api"][K]["res"]>> {
+    const sn = this.nextSn++
+    const ret = await this.request("api", apiName as string, req, sn, options)
+    return { ...ret, sn }
+  }
+
+  /**
+   * 发送消息
+   */
+  async sendMsg<K extends keyof T["msg"]>(
+    msgName: K,
+    msg: T["msg"][K],
+    options: LightweightCallOptions = {}
+  ): Promise<LightweightSendResult> {
+    const ret = await this.request("msg", msgName as string, msg, this.nextSn++, options)
+    return ret.isSucc ? { isSucc: true } : { isSucc: false, errMsg: ret.err.message }
+  }
+
+  /**
+   * 发送请求并解析返回
+   */
+  private async request(
+    type: "api" | "msg",
+    serviceName: string,
+    data: any,
+    sn: number,
+    options: LightweightCallOptions
+  ): Promise<LightweightApiReturn> {
+    const json = this.options.json
+    const url = `${this.options.server}/${serviceName}${type === "msg" ? "?type=msg" : ""}`
+    const body = json
+      ? JSON.stringify(data)
+      : this.protocolGenerator.serialize({ type, serviceName, data, sn }, "binary")
+
+    const timeout = options.timeout ?? this.options.timeout
+    const controller = new AbortController()
+    const timer = timeout ? setTimeout(() => controller.abort(), timeout) : undefined
+
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": json ? "application/json" : "application/octet-stream",
+          ...(this.options.protocolFingerprint && {
+            [PROTOCOL_FINGERPRINT_HEADER]: this.options.protocolFingerprint,
+          }),
+          ...this.options.headers,
+          ...options.headers,
+        },
+        body: body as BodyInit,
+        signal: controller.signal,
+      })
+
+      // 错误响应始终为JSON
+      const contentType = response.headers.get("content-type") || ""
+      const output = contentType.includes("application/json")
+        ? await response.json()
+        : this.protocolGenerator.deserialize(new Uint8Array(await response.arrayBuffer()))
+
+      if (type === "msg") {
+        return output?.isSucc === false ? output : { isSucc: true, res: undefined }
+      }
+      return output
+    } catch (error: any) {
+      if (controller.signal.aborted) {
+        return {
+          isSucc: false,
+          err: { message: `Request timeout (${timeout}ms)`, code: "TIMEOUT", type: "NetworkError" },
+        }
+      }
+      return {
+        isSucc: false,
+        err: {
+          message: error.message || "Network error",
+          code: "NETWORK_ERROR",
+          type: "NetworkError",
+        },
+      }
+    } finally {
+      if (timer) {
+        clearTimeout(timer)
+      }
+    }
+  }
+}
+
+/**
+ * 创建轻量级HTTP客户端的便捷函数
+ */
+export function createLightweightHttpClient<T extends LightweightServiceType>(
+  options: Partial<LightweightHttpClientOptions> & { server: string }
+): LightweightHttpClient<T> {
+  return new LightweightHttpClient<T>(options)
+}
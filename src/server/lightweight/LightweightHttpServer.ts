@@ -1,18 +1,46 @@
 import * as http from "http"
 import * as https from "https"
-import { LightweightServer, LightweightServerStatus } from "./LightweightServer"
+import * as net from "net"
+import * as crypto from "crypto"
+import {
+  LightweightConnection,
+  LightweightError,
+  LightweightServer,
+  LightweightServerStatus,
+  LightweightValidationError,
+} from "./LightweightServer"
 import {
   LightweightServiceType,
-  LightweightProtocolOptions,
+  LightweightServerOptions,
   LightweightCallContext,
+  LightweightSendResult,
+  LightweightApiError,
+  LightweightApiReturn,
+  LightweightBatchCall,
 } from "./LightweightTypes"
+import {
+  generateOpenApiDocument,
+  LightweightOpenApiDocument,
+  LightweightOpenApiOptions,
+} from "./LightweightOpenApi"
+import { LightweightTsrpcCodec } from "./LightweightServiceProto"
+import {
+  createJsonRpcError,
+  DEFAULT_JSON_RPC_ERROR_CODES,
+  JSON_RPC_ERROR_CODES,
+  jsonRpcParamsToReq,
+  LightweightJsonRpcOptions,
+  LightweightJsonRpcResponse,
+  toJsonRpcResponse,
+  validateJsonRpcRequest,
+} from "./LightweightJsonRpc"
+import { PROTOCOL_FINGERPRINT_HEADER } from "./RuntimeProtocolGenerator"
 
 /**
  * 轻量级HTTP连接类
+ * 生命周期仅为一次请求，响应体用于返回API结果，无法向客户端推送消息
  */
-export class LightweightHttpConnection {
-  readonly id: string
-  readonly ip: string
+export class LightweightHttpConnection extends LightweightConnection {
   readonly httpReq: http.IncomingMessage
   readonly httpRes: http.ServerResponse
   readonly dataType: "text" | "buffer" | "json"
@@ -24,8 +52,7 @@ export class LightweightHttpConnection {
     httpRes: http.ServerResponse
     dataType: "text" | "buffer" | "json"
   }) {
-    this.id = options.id
-    this.ip = options.ip
+    super(options.id, options.ip)
     this.httpReq = options.httpReq
     this.httpRes = options.httpRes
     this.dataType = options.dataType
@@ -41,6 +68,13 @@ export class LightweightHttpConnection {
     }
   }
 
+  async sendData(data: string | Uint8Array): Promise<LightweightSendResult> {
+    return {
+      isSucc: false,
+      errMsg: `HTTP connection does not support server push: ${this.id}`,
+    }
+  }
+
   close(reason?: string): void {
     if (this.status !== "OPENED") {
       return
@@ -53,10 +87,328 @@ export class LightweightHttpConnection {
   }
 }
 
+/**
+ * SSE响应头
+ */
+const LIGHTWEIGHT_SSE_HEADERS = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-cache",
+  Connection: "keep-alive",
+  // 禁用nginx的响应缓冲
+  "X-Accel-Buffering": "no",
+}
+
+/**
+ * 让定时器不阻止进程退出，Node以外的运行时没有unref时忽略
+ */
+function unrefTimer<T>(timer: T): T {
+  const nodeTimer = timer as { unref?: () => void }
+  nodeTimer.unref?.()
+  return timer
+}
+
+/**
+ * Fetch API连接类
+ * 用于handleFetch，生命周期仅为一次请求，同样无法向客户端推送消息
+ */
+export class LightweightFetchConnection extends LightweightConnection {
+  readonly request: Request
+  readonly dataType: "json" | "buffer"
+  private closed = false
+
+  constructor(options: { id: string; ip: string; request: Request; dataType: "json" | "buffer" }) {
+    super(options.id, options.ip)
+    this.request = options.request
+    this.dataType = options.dataType
+  }
+
+  get status(): string {
+    return this.closed ? "CLOSED" : "OPENED"
+  }
+
+  async sendData(data: string | Uint8Array): Promise<LightweightSendResult> {
+    return {
+      isSucc: false,
+      errMsg: `HTTP connection does not support server push: ${this.id}`,
+    }
+  }
+
+  /**
+   * Response由handleFetch统一返回，这里只取消正在执行的调用
+   */
+  close(reason?: string): void {
+    this.closed = true
+    this.abort()
+  }
+}
+
+/**
+ * SSE消息记录，用于断线重连时补发
+ */
+interface LightweightSseHistory {
+  /** 恢复令牌，随机生成，作为事件ID的前缀 */
+  token: string
+  connId: string
+  /** 最后一条消息的序号 */
+  seq: number
+  events: Array<{ seq: number; data: string }>
+  /** 连接断开后到期清理的定时器 */
+  expireTimer?: ReturnType<typeof setTimeout>
+}
+
+/**
+ * SSE连接类
+ * 通过 `text/event-stream` 持续推送消息，只能传输文本，消息总是以JSON格式发送
+ * 事件ID为 `{恢复令牌}:{序号}`，客户端重连时带上Last-Event-ID即可恢复同一连接ID并补发未收到的消息
+ * 恢复令牌为随机值，不使用可被猜测的连接ID
+ */
+export class LightweightSseConnection extends LightweightConnection {
+  readonly serializationMode = "json" as const
+  private closed = false
+  private readonly history: LightweightSseHistory
+  private readonly historySize: number
+  private readonly write: (chunk: string) => void
+  private readonly end: () => void
+
+  constructor(options: {
+    id: string
+    ip: string
+    history: LightweightSseHistory
+    historySize: number
+    write: (chunk: string) => void
+    end: () => void
+  }) {
+    super(options.id, options.ip)
+    this.history = options.history
+    this.historySize = options.historySize
+    this.write = options.write
+    this.end = options.end
+  }
+
+  get status(): string {
+    return this.closed ? "CLOSED" : "OPENED"
+  }
+
+  async sendData(data: string | Uint8Array): Promise<LightweightSendResult> {
+    if (this.closed) {
+      return { isSucc: false, errMsg: `SSE stream is closed: ${this.id}` }
+    }
+
+    const text = typeof data === "string" ? data : new TextDecoder().decode(data)
+    const seq = ++this.history.seq
+    this.history.events.push({ seq, data: text })
+    if (this.history.events.length > this.historySize) {
+      this.history.events.shift()
+    }
+
+    this.writeEvent(seq, text)
+    return { isSucc: true }
+  }
+
+  /**
+   * 补发指定序号之后的消息
+   */
+  replay(afterSeq: number): void {
+    for (const event of this.history.events) {
+      if (event.seq > afterSeq) {
+        this.writeEvent(event.seq, event.data)
+      }
+    }
+  }
+
+  /**
+   * 发送心跳注释，避免代理因空闲断开连接
+   */
+  heartbeat(): void {
+    if (!this.closed) {
+      this.write(": ping\n\n")
+    }
+  }
+
+  /**
+   * 关闭连接，客户端收到close事件后应停止重连
+   */
+  close(reason?: string): void {
+    if (this.closed) {
+      return
+    }
+
+    this.write(`event: close\ndata: ${reason || ""}\n\n`)
+    this.closed = true
+    this.end()
+  }
+
+  /**
+   * 标记底层传输已关闭
+   */
+  markClosed(): void {
+    this.closed = true
+  }
+
+  private writeEvent(seq: number, data: string): void {
+    // 多行数据每行都需要 `data: ` 前缀
+    const lines = data.split(/\r?\n/).map(line => `data: ${line}`)
+    this.write(`id: ${this.history.token}:${seq}\n${lines.join("\n")}\n\n`)
+  }
+}
+
+/**
+ * 长轮询会话连接类
+ * 会话在多次轮询请求之间保持，sendMsg的消息先进入队列，在下一次轮询时返回
+ * 超过sessionTimeout没有轮询时会话过期并关闭
+ */
+export class LightweightPollingConnection extends LightweightConnection {
+  readonly serializationMode = "json" as const
+  /** 会话令牌，客户端以此作为sessionId，不使用可预测的连接ID */
+  readonly token: string
+  private closed = false
+  private queue: string[] = []
+  /** 正在等待消息的轮询请求 */
+  private pending?: { resolve: (msgs: string[]) => void; timer: ReturnType<typeof setTimeout> }
+  private expireTimer?: ReturnType<typeof setTimeout>
+  private readonly maxQueueSize: number
+  private readonly sessionTimeout: number
+  private readonly onClose: (reason?: string) => void
+
+  constructor(options: {
+    id: string
+    ip: string
+    token: string
+    maxQueueSize: number
+    sessionTimeout: number
+    onClose: (reason?: string) => void
+  }) {
+    super(options.id, options.ip)
+    this.token = options.token
+    this.maxQueueSize = options.maxQueueSize
+    this.sessionTimeout = options.sessionTimeout
+    this.onClose = options.onClose
+    this.startExpireTimer()
+  }
+
+  get status(): string {
+    return this.closed ? "CLOSED" : "OPENED"
+  }
+
+  async sendData(data: string | Uint8Array): Promise<LightweightSendResult> {
+    if (this.closed) {
+      return { isSucc: false, errMsg: `Polling session is closed: ${this.id}` }
+    }
+
+    this.queue.push(typeof data === "string" ? data : new TextDecoder().decode(data))
+    // 客户端长时间不取时丢弃最早的消息
+    if (this.queue.length > this.maxQueueSize) {
+      this.queue.shift()
+    }
+
+    this.flush()
+    return { isSucc: true }
+  }
+
+  /**
+   * 取出队列中的消息，队列为空时等待新消息，直到超时或请求被取消
+   * 同一会话同时只保留一个等待中的轮询，新的轮询会让旧的立即返回
+   */
+  poll(timeout: number, signal?: AbortSignal): Promise<string[]> {
+    if (this.expireTimer) {
+      clearTimeout(this.expireTimer)
+      this.expireTimer = undefined
+    }
+    this.flush()
+
+    if (this.queue.length || this.closed) {
+      return Promise.resolve(this.drain())
+    }
+
+    return new Promise<string[]>(resolve => {
+      this.pending = { resolve, timer: unrefTimer(setTimeout(() => this.flush(), timeout)) }
+      signal?.addEventListener("abort", () => this.flush())
+    })
+  }
+
+  /**
+   * 关闭会话，等待中的轮询立即返回剩余消息
+   */
+  close(reason?: string): void {
+    if (this.closed) {
+      return
+    }
+
+    this.closed = true
+    if (this.expireTimer) {
+      clearTimeout(this.expireTimer)
+      this.expireTimer = undefined
+    }
+    this.flush()
+    this.onClose(reason)
+  }
+
+  /**
+   * 结束等待中的轮询
+   */
+  private flush(): void {
+    const pending = this.pending
+    if (!pending) {
+      return
+    }
+
+    this.pending = undefined
+    clearTimeout(pending.timer)
+    pending.resolve(this.drain())
+  }
+
+  private drain(): string[] {
+    const msgs = this.queue
+    this.queue = []
+    if (!this.closed) {
+      this.startExpireTimer()
+    }
+    return msgs
+  }
+
+  private startExpireTimer(): void {
+    if (this.expireTimer) {
+      clearTimeout(this.expireTimer)
+    }
+    this.expireTimer = unrefTimer(
+      setTimeout(() => this.close("Session expired"), this.sessionTimeout)
+    )
+  }
+}
+
+/**
+ * 与传输方式无关的HTTP请求
+ */
+interface LightweightHttpRequestInfo<C extends object> {
+  method: string
+  /** 路径和查询参数 */
+  url: string
+  clientIp: string
+  /** 客户端断开时触发 */
+  signal?: AbortSignal
+  header(name: string): string | undefined
+  readBody(): Promise<Uint8Array>
+  /** 通过路由和协议校验后，创建连接对象和调用上下文 */
+  open(
+    connId: string,
+    clientIp: string,
+    dataType: "json" | "buffer"
+  ): { connection: LightweightConnection; context: LightweightCallContext<C> }
+}
+
+/**
+ * 与传输方式无关的HTTP响应
+ */
+interface LightweightHttpResponseInfo {
+  status: number
+  headers: Record<string, string>
+  body?: string | Uint8Array
+}
+
 /**
  * 轻量级HTTP服务器选项
  */
-export interface LightweightHttpServerOptions extends LightweightProtocolOptions {
+export interface LightweightHttpServerOptions extends LightweightServerOptions {
   /** 监听端口 */
   port: number
   /** HTTPS选项 */
@@ -76,6 +428,44 @@ export interface LightweightHttpServerOptions extends LightweightProtocolOptions
   keepAliveTimeout?: number
   /** 请求体大小限制 */
   maxBodySize?: number
+  /** OpenAPI文档，设置后通过 `GET {path}` 提供 */
+  openApi?: Omit<LightweightOpenApiOptions, "jsonHostPath"> & {
+    /** 文档路径，如 `/openapi.json` */
+    path: string
+  }
+  /** SSE消息推送，设置后客户端可通过 `GET {jsonHostPath}{path}` 接收服务端消息 */
+  sse?: {
+    /** 相对jsonHostPath的路径，默认 `sse` */
+    path?: string
+    /** 心跳间隔（毫秒），默认15000 */
+    heartbeatInterval?: number
+    /** 每个连接为断线重连保留的消息数，默认100 */
+    historySize?: number
+    /** 连接断开后保留消息记录的时间（毫秒），超时后无法恢复，默认60000 */
+    retention?: number
+  }
+  /** 批量调用，设置后可通过 `POST {jsonHostPath}{path}` 在一次请求中调用多个API */
+  batch?: {
+    /** 相对jsonHostPath的路径，默认 `batch` */
+    path?: string
+    /** 单次请求最多包含的调用数，默认50 */
+    maxSize?: number
+    /** 是否按顺序逐个执行，默认false即并行执行 */
+    sequential?: boolean
+  }
+  /** JSON-RPC 2.0端点，设置后可通过 `POST {jsonHostPath}{path}` 以JSON-RPC格式调用 */
+  jsonRpc?: LightweightJsonRpcOptions
+  /** 长轮询，设置后客户端可通过 `{jsonHostPath}{path}?sessionId=xxx` 拉取服务端消息 */
+  longPolling?: {
+    /** 相对jsonHostPath的路径，默认 `poll` */
+    path?: string
+    /** 没有消息时轮询请求的最长等待时间（毫秒），默认25000 */
+    pollTimeout?: number
+    /** 超过该时间没有轮询则会话过期（毫秒），默认60000 */
+    sessionTimeout?: number
+    /** 每个会话最多缓存的消息数，超出时丢弃最早的消息，默认1000 */
+    maxQueueSize?: number
+  }
 }
 
 /**
@@ -84,9 +474,17 @@ export interface LightweightHttpServerOptions extends LightweightProtocolOptions
  */
 export class LightweightHttpServer<
   T extends LightweightServiceType = LightweightServiceType,
-> extends LightweightServer<T> {
+  C extends object = Record<string, any>,
+> extends LightweightServer<T, C> {
   private httpServer?: http.Server | https.Server
+  /** 当前打开的socket，停止时强制关闭，避免空闲的keep-alive连接阻塞关闭 */
+  private readonly sockets = new Set<net.Socket>()
   private readonly serverOptions: Required<LightweightHttpServerOptions>
+  private readonly tsrpcCodec = new LightweightTsrpcCodec<T>(this.protocolGenerator)
+  /** SSE连接的消息记录，按恢复令牌索引，断开后保留一段时间以便重连 */
+  private readonly sseHistories = new Map<string, LightweightSseHistory>()
+  /** 长轮询会话，按会话令牌索引 */
+  private readonly pollingSessions = new Map<string, LightweightPollingConnection>()
 
   constructor(options: Partial<LightweightHttpServerOptions> = {}) {
     super(options)
@@ -105,6 +503,11 @@ export class LightweightHttpServer<
       customValidators: {},
       ...options,
       https: options.https,
+      openApi: options.openApi,
+      sse: options.sse,
+      longPolling: options.longPolling,
+      batch: options.batch,
+      jsonRpc: options.jsonRpc,
     } as Required<LightweightHttpServerOptions>
 
     // 格式化jsonHostPath
@@ -137,6 +540,13 @@ export class LightweightHttpServer<
         this.httpServer.keepAliveTimeout = this.serverOptions.keepAliveTimeout
       }
 
+      this.httpServer.on("connection", (socket: net.Socket) => {
+        this.sockets.add(socket)
+        socket.on("close", () => {
+          this.sockets.delete(socket)
+        })
+      })
+
       // 监听端口
       this.httpServer.listen(this.serverOptions.port, () => {
         this._status = LightweightServerStatus.Opened
@@ -153,9 +563,14 @@ export class LightweightHttpServer<
 
   /**
    * 停止HTTP服务器
+   * 立即关闭所有socket，正在执行的调用不会等待，需要等待时请使用gracefulStop
    */
   async stop(): Promise<void> {
     if (!this.httpServer) {
+      // 挂载到外部服务器时，由外部服务器负责关闭socket，这里只关闭SSE和长轮询连接
+      this._status = LightweightServerStatus.Closed
+      this.closeSseConnections()
+      this.closePollingSessions()
       return
     }
 
@@ -173,80 +588,562 @@ export class LightweightHttpServer<
           resolve()
         }
       })
+
+      this.closeSseConnections()
+      this.closePollingSessions()
+      for (const socket of Array.from(this.sockets)) {
+        socket.destroy()
+      }
     })
   }
 
   /**
-   * 处理HTTP请求
+   * 获取请求处理函数，用于挂载到已有的HTTP服务器或Express/Connect应用，无需调用start
+   * 只处理jsonHostPath下的请求和OpenAPI文档，其余请求交给next，未传入next时返回404
+   *
+   * @example
+   * app.use(server.getRequestListener())
+   */
+  getRequestListener(): (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    next?: (err?: any) => void
+  ) => void {
+    if (this._status === LightweightServerStatus.Closed) {
+      this._status = LightweightServerStatus.Opened
+    }
+
+    return (req, res, next) => {
+      if (this.isOwnRequest(req)) {
+        this.handleRequest(req, res)
+      } else if (next) {
+        next()
+      } else {
+        const response = this.errorResponse(404, "Not found")
+        res.writeHead(response.status, response.headers)
+        res.end(response.body)
+      }
+    }
+  }
+
+  /**
+   * 是否为本服务器负责的请求
+   */
+  private isOwnRequest(req: http.IncomingMessage): boolean {
+    const url = req.url || "/"
+    const path = url.split("?")[0]
+    const openApi = this.serverOptions.openApi
+
+    return (
+      path.startsWith(this.serverOptions.jsonHostPath) ||
+      this.isJsonHostRoot(url) ||
+      (!!openApi && req.method === "GET" && path === openApi.path)
+    )
+  }
+
+  /**
+   * 处理Fetch API请求，用于Bun、Deno、Workers等运行时，无需调用start
+   * 路由、数据格式和流程与Node HTTP请求一致
+   *
+   * @param options.clientIp 客户端IP，Request中没有对端地址，未传入且开启trustProxy时从X-Forwarded-For等请求头获取
+   * @example
+   * Bun.serve({ port: 3000, fetch: req => server.handleFetch(req) })
+   */
+  async handleFetch(request: Request, options: { clientIp?: string } = {}): Promise<Response> {
+    const url = new URL(request.url)
+    const header = (name: string) => request.headers.get(name) ?? undefined
+
+    if (request.method === "GET" && this.isSsePath(url.pathname)) {
+      return this.handleFetchSse(request, url, options.clientIp ?? this.getClientIp(header), header)
+    }
+
+    const response = await this.processRequest({
+      method: request.method,
+      url: url.pathname + url.search,
+      header,
+      clientIp: options.clientIp ?? this.getClientIp(header),
+      signal: request.signal,
+      readBody: async () => new Uint8Array(await request.arrayBuffer()),
+      open: (connId, clientIp, dataType) => {
+        const connection = new LightweightFetchConnection({
+          id: connId,
+          ip: clientIp,
+          request,
+          dataType,
+        })
+        request.signal?.addEventListener("abort", () => connection.abort())
+
+        return {
+          connection,
+          context: this.createHttpCallContext(connection, {
+            request,
+            userAgent: header("user-agent"),
+            referer: header("referer"),
+          }),
+        }
+      },
+    })
+
+    return new Response(response.body ?? null, {
+      status: response.status,
+      headers: { ...this.getResponseHeaders(), ...response.headers },
+    })
+  }
+
+  /**
+   * 处理Node HTTP请求
    */
   private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const header = (name: string) => req.headers[name] as string | undefined
+
+    // 先设置通用响应头，中间件可以通过httpRes修改
+    for (const [name, value] of Object.entries(this.getResponseHeaders())) {
+      res.setHeader(name, value)
+    }
+
+    if (req.method === "GET" && this.isSsePath((req.url || "/").split("?")[0])) {
+      this.handleNodeSse(req, res, header)
+      return
+    }
+
+    // 响应完成前连接关闭，说明客户端已断开
+    const abortController = new AbortController()
+    res.on("close", () => {
+      if (!res.writableFinished) {
+        abortController.abort()
+      }
+    })
+
+    const response = await this.processRequest({
+      method: req.method || "GET",
+      url: req.url || "/",
+      header,
+      clientIp: this.getClientIp(header, req.socket.remoteAddress),
+      signal: abortController.signal,
+      readBody: async () => new Uint8Array(await this.readRequestBody(req)),
+      open: (connId, clientIp, dataType) => {
+        const connection = new LightweightHttpConnection({
+          id: connId,
+          ip: clientIp,
+          httpReq: req,
+          httpRes: res,
+          dataType,
+        })
+
+        abortController.signal.addEventListener("abort", () => connection.abort())
+
+        return {
+          connection,
+          context: this.createHttpCallContext(connection, {
+            httpReq: req,
+            httpRes: res,
+            userAgent: header("user-agent"),
+            referer: header("referer"),
+          }),
+        }
+      },
+    })
+
+    if (res.headersSent) {
+      return
+    }
+    res.writeHead(response.status, response.headers)
+    res.end(
+      typeof response.body === "string"
+        ? response.body
+        : response.body && Buffer.from(response.body)
+    )
+  }
+
+  /**
+   * 是否为SSE路径
+   */
+  private isSsePath(path: string): boolean {
+    const sse = this.serverOptions.sse
+    return !!sse && path === this.serverOptions.jsonHostPath + (sse.path ?? "sse")
+  }
+
+  /**
+   * 通过Node HTTP响应建立SSE连接
+   */
+  private handleNodeSse(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    header: (name: string) => string | undefined
+  ): void {
+    const query = new URLSearchParams((req.url || "").split("?")[1] || "")
+    const protocolError = this.checkProtocolFingerprint(
+      header(PROTOCOL_FINGERPRINT_HEADER.toLowerCase()) ?? query.get("protocol") ?? undefined
+    )
+    if (protocolError) {
+      res.writeHead(409, { "Content-Type": "application/json" })
+      res.end(JSON.stringify({ isSucc: false, err: protocolError }))
+      return
+    }
+
+    res.writeHead(200, LIGHTWEIGHT_SSE_HEADERS)
+    const onClose = this.openSse({
+      clientIp: this.getClientIp(header, req.socket.remoteAddress),
+      lastEventId: header("last-event-id") ?? query.get("lastEventId") ?? undefined,
+      write: chunk => res.write(chunk),
+      end: () => res.end(),
+    })
+    res.on("close", onClose)
+  }
+
+  /**
+   * 通过Fetch API的流式Response建立SSE连接
+   */
+  private handleFetchSse(
+    request: Request,
+    url: URL,
+    clientIp: string,
+    header: (name: string) => string | undefined
+  ): Response {
+    const protocolError = this.checkProtocolFingerprint(
+      header(PROTOCOL_FINGERPRINT_HEADER.toLowerCase()) ??
+        url.searchParams.get("protocol") ??
+        undefined
+    )
+    if (protocolError) {
+      return new Response(JSON.stringify({ isSucc: false, err: protocolError }), {
+        status: 409,
+        headers: { ...this.getResponseHeaders(), "Content-Type": "application/json" },
+      })
+    }
+
+    const encoder = new TextEncoder()
+    let onClose: () => void = () => {}
+    const stream = new ReadableStream<Uint8Array>({
+      start: controller => {
+        onClose = this.openSse({
+          clientIp,
+          lastEventId: header("last-event-id") ?? url.searchParams.get("lastEventId") ?? undefined,
+          write: chunk => controller.enqueue(encoder.encode(chunk)),
+          end: () => {
+            controller.close()
+            onClose()
+          },
+        })
+        request.signal?.addEventListener("abort", () => onClose())
+      },
+      cancel: () => onClose(),
+    })
+
+    return new Response(stream, {
+      status: 200,
+      headers: { ...this.getResponseHeaders(), ...LIGHTWEIGHT_SSE_HEADERS },
+    })
+  }
+
+  /**
+   * 建立SSE连接，Last-Event-ID中的恢复令牌对应的记录还在时恢复原连接ID并补发消息
+   * @returns 底层传输关闭时调用的函数
+   */
+  private openSse(options: {
+    clientIp: string
+    lastEventId?: string
+    write: (chunk: string) => void
+    end: () => void
+  }): () => void {
+    const sse = this.serverOptions.sse!
+    const match = options.lastEventId?.match(/^([0-9a-f]+):(\d+)$/)
+    const candidate = match ? this.sseHistories.get(match[1]) : undefined
+    // 原连接仍在线时不允许恢复
+    const resumeHistory =
+      candidate && !this.connections.has(candidate.connId) ? candidate : undefined
+
+    const history: LightweightSseHistory = resumeHistory ?? {
+      token: crypto.randomBytes(16).toString("hex"),
+      connId: this.generateConnectionId(),
+      seq: 0,
+      events: [],
+    }
+    const connId = history.connId
+    if (history.expireTimer) {
+      clearTimeout(history.expireTimer)
+      history.expireTimer = undefined
+    }
+    this.sseHistories.set(history.token, history)
+
+    const connection = new LightweightSseConnection({
+      id: connId,
+      ip: options.clientIp,
+      history,
+      historySize: sse.historySize ?? 100,
+      write: options.write,
+      end: options.end,
+    })
+
+    // 先发送一条注释，让代理和客户端尽快收到响应头
+    options.write(": connected\n\n")
+    if (resumeHistory) {
+      connection.replay(Number(match![2]))
+    }
+
+    const heartbeatTimer = unrefTimer(
+      setInterval(() => connection.heartbeat(), sse.heartbeatInterval ?? 15000)
+    )
+
+    let closed = false
+    const onClose = () => {
+      if (closed) {
+        return
+      }
+      closed = true
+      clearInterval(heartbeatTimer)
+      connection.markClosed()
+
+      // 保留消息记录一段时间，以便客户端重连；服务器停止时由closeSseConnections统一清理
+      // 不按服务器状态判断，只通过handleFetch使用时服务器状态始终为Closed
+      history.expireTimer = unrefTimer(
+        setTimeout(() => {
+          this.sseHistories.delete(history.token)
+        }, sse.retention ?? 60000)
+      )
+
+      this.onDisconnect(connId, "SSE stream closed").catch(error => {
+        console.error(`SSE disconnect error for ${connId}:`, error)
+      })
+    }
+
+    this.onConnect(connId, options.clientIp, connection).catch(error => {
+      console.error(`SSE connect error for ${connId}:`, error)
+      connection.close("Connect failed")
+    })
+
+    return onClose
+  }
+
+  /**
+   * 关闭所有SSE连接并清理消息记录
+   */
+  private closeSseConnections(): void {
+    for (const connection of Array.from(this.connections.values())) {
+      if (connection instanceof LightweightSseConnection) {
+        connection.close("Server stopped")
+      }
+    }
+    this.clearSseHistories()
+  }
+
+  /**
+   * 清理所有SSE消息记录
+   */
+  private clearSseHistories(): void {
+    for (const history of this.sseHistories.values()) {
+      if (history.expireTimer) {
+        clearTimeout(history.expireTimer)
+      }
+    }
+    this.sseHistories.clear()
+  }
+
+  /**
+   * 是否为长轮询路径
+   */
+  private isPollingPath(path: string): boolean {
+    const longPolling = this.serverOptions.longPolling
+    return !!longPolling && path === this.serverOptions.jsonHostPath + (longPolling.path ?? "poll")
+  }
+
+  /**
+   * 处理长轮询请求
+   * 未带sessionId或会话已过期时创建新会话并立即返回，否则等待消息后返回
+   * 响应为 `{ sessionId, msgs }`，msgs中每项与WebSocket推送的JSON消息格式相同
+   */
+  private async handlePollRequest(
+    request: LightweightHttpRequestInfo<C>
+  ): Promise<LightweightHttpResponseInfo> {
+    const longPolling = this.serverOptions.longPolling!
+    const query = new URLSearchParams(request.url.split("?")[1] || "")
+    const sessionId = query.get("sessionId") ?? request.header("x-session-id")
+    const session = sessionId ? this.pollingSessions.get(sessionId) : undefined
+
+    let msgs: string[] = []
+    let connection: LightweightPollingConnection
+    if (session) {
+      connection = session
+      msgs = await connection.poll(longPolling.pollTimeout ?? 25000, request.signal)
+    } else {
+      const protocolError = this.checkProtocolFingerprint(
+        request.header(PROTOCOL_FINGERPRINT_HEADER.toLowerCase()) ??
+          query.get("protocol") ??
+          undefined
+      )
+      if (protocolError) {
+        return {
+          status: 409,
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ isSucc: false, err: protocolError }),
+        }
+      }
+
+      const connId = this.generateConnectionId()
+      const token = crypto.randomBytes(16).toString("hex")
+      connection = new LightweightPollingConnection({
+        id: connId,
+        ip: request.clientIp,
+        token,
+        maxQueueSize: longPolling.maxQueueSize ?? 1000,
+        sessionTimeout: longPolling.sessionTimeout ?? 60000,
+        onClose: reason => {
+          this.pollingSessions.delete(token)
+          this.onDisconnect(connId, reason).catch(error => {
+            console.error(`Polling disconnect error for ${connId}:`, error)
+          })
+        },
+      })
+      this.pollingSessions.set(token, connection)
+      await this.onConnect(connId, request.clientIp, connection)
+    }
+
+    return {
+      status: 200,
+      headers: { "Content-Type": "application/json", "Cache-Control": "no-cache" },
+      // 队列中已是序列化后的JSON，直接拼接
+      body: `{"sessionId":${JSON.stringify(connection.token)},"msgs":[${msgs.join(",")}]}`,
+    }
+  }
+
+  /**
+   * 关闭所有长轮询会话
+   */
+  private closePollingSessions(): void {
+    for (const connection of Array.from(this.pollingSessions.values())) {
+      connection.close("Server stopped")
+    }
+  }
+
+  /**
+   * 处理一次HTTP请求，与传输方式无关
+   */
+  private async processRequest(
+    request: LightweightHttpRequestInfo<C>
+  ): Promise<LightweightHttpResponseInfo> {
     const connId = this.generateConnectionId()
-    const clientIp = this.getClientIp(req)
+    const { clientIp, url } = request
+    let isTsrpcBuffer = false
 
     try {
-      // 设置响应头
-      this.setResponseHeaders(res, req)
-
       // 处理CORS预检请求
-      if (req.method === "OPTIONS") {
-        res.writeHead(200)
-        res.end()
-        return
+      if (request.method === "OPTIONS") {
+        return { status: 200, headers: {} }
+      }
+
+      // OpenAPI文档
+      if (request.method === "GET" && this.serverOptions.openApi) {
+        const path = url.split("?")[0]
+        if (path === this.serverOptions.openApi.path) {
+          return {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(this.getOpenApiDocument()),
+          }
+        }
+      }
+
+      // 长轮询，GET和POST均可
+      if (this.isPollingPath(url.split("?")[0])) {
+        return await this.handlePollRequest(request)
       }
 
       // 只支持POST请求
-      if (req.method !== "POST") {
-        this.sendError(res, 405, "Method not allowed")
-        return
+      if (request.method !== "POST") {
+        return this.errorResponse(405, "Method not allowed")
       }
 
       // 检查内容类型
-      const contentType = req.headers["content-type"] || ""
+      const contentType = request.header("content-type") || ""
       const isJson = contentType.toLowerCase().includes("application/json")
 
       // 读取请求体
-      const body = await this.readRequestBody(req)
+      const body = await request.readBody()
 
       if (body.length > this.serverOptions.maxBodySize) {
-        this.sendError(res, 413, "Request body too large")
-        return
+        return this.errorResponse(413, "Request body too large")
       }
 
       // 解析URL路径
-      const url = req.url || "/"
       const { serviceName, isMsg } = this.parseUrlPath(url)
+      // tsrpc-base-client的二进制请求直接发送到服务根路径
+      isTsrpcBuffer = !serviceName && !isJson && this.isJsonHostRoot(url)
 
-      if (!serviceName) {
-        this.sendError(res, 400, "Invalid API path")
-        return
+      if (!serviceName && !isTsrpcBuffer) {
+        return this.errorResponse(400, "Invalid API path")
       }
 
-      // 创建连接对象
-      const connection = new LightweightHttpConnection({
-        id: connId,
-        ip: clientIp,
-        httpReq: req,
-        httpRes: res,
-        dataType: isJson ? "json" : "buffer",
-      })
+      // 协议指纹校验，先于服务查找，以便过期客户端收到明确的错误
+      const protocolError = this.checkProtocolFingerprint(
+        request.header(PROTOCOL_FINGERPRINT_HEADER.toLowerCase())
+      )
+      if (protocolError) {
+        return isTsrpcBuffer
+          ? {
+              status: 200,
+              headers: { "Content-Type": "application/octet-stream" },
+              body: this.tsrpcCodec.encodeError(protocolError),
+            }
+          : {
+              status: 409,
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ isSucc: false, err: protocolError }),
+            }
+      }
+
+      // 创建连接对象和调用上下文
+      const { connection, context } = request.open(connId, clientIp, isJson ? "json" : "buffer")
 
       // 处理连接建立
       await this.onConnect(connId, clientIp, connection)
 
-      // 创建调用上下文
-      const context = this.createHttpCallContext(connId, clientIp, req, res)
+      // 接收数据前置流程，JSON请求为文本，其余为二进制
+      const input = await this.runPreReceiveData(
+        isJson ? new TextDecoder().decode(body) : body,
+        context
+      )
 
-      if (isJson) {
-        await this.handleJsonRequest(serviceName, isMsg, body, context, res)
+      let response: LightweightHttpResponseInfo
+      if (input === undefined) {
+        response = this.errorResponse(400, "Request canceled by preReceiveData flow")
+      } else if (isTsrpcBuffer) {
+        response = await this.handleTsrpcBufferRequest(this.toUint8Array(input), context)
+      } else if (isJson) {
+        response = await this.handleJsonRequest(serviceName!, isMsg, input, context)
       } else {
-        await this.handleBinaryRequest(serviceName, body, context, res)
+        response = await this.handleBinaryRequest(serviceName!, this.toUint8Array(input), context)
       }
 
-      // 处理连接断开
-      await this.onDisconnect(connId)
+      return response
     } catch (error: any) {
-      this.sendError(res, 500, error.message || "Internal server error")
+      // 中间件可以抛出LightweightError返回具体错误
+      if (error instanceof LightweightError) {
+        const err: LightweightApiError = {
+          message: error.message,
+          code: error.code,
+          type: error.type,
+          ...(error instanceof LightweightValidationError && { issues: error.issues }),
+        }
+        return isTsrpcBuffer
+          ? {
+              status: 200,
+              headers: { "Content-Type": "application/octet-stream" },
+              body: this.tsrpcCodec.encodeError(err),
+            }
+          : {
+              status: error.type === "ClientError" ? 400 : 500,
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ isSucc: false, err }),
+            }
+      }
+
       console.error(`Request handling error for ${connId}:`, error)
+      return this.errorResponse(500, error.message || "Internal server error")
+    } finally {
+      // 处理连接断开，请求未建立连接时不执行
+      await this.onDisconnect(connId).catch(error => {
+        console.error(`Disconnect error for ${connId}:`, error)
+      })
     }
   }
 
@@ -256,52 +1153,225 @@ export class LightweightHttpServer<
   private async handleJsonRequest(
     serviceName: string,
     isMsg: boolean,
-    body: Buffer,
-    context: LightweightCallContext,
-    res: http.ServerResponse
-  ): Promise<void> {
+    body: string | Uint8Array,
+    context: LightweightCallContext<C>
+  ): Promise<LightweightHttpResponseInfo> {
+    let data: any
     try {
-      const data = JSON.parse(body.toString())
+      data = JSON.parse(typeof body === "string" ? body : new TextDecoder().decode(body))
+    } catch (error: any) {
+      if (this.isJsonRpcService(serviceName)) {
+        const response = createJsonRpcError(
+          null,
+          JSON_RPC_ERROR_CODES.PARSE_ERROR,
+          `Parse error: ${error.message}`
+        )
+        return this.createResponse(context, JSON.stringify(response), "application/json")
+      }
+      return this.errorResponse(400, `JSON parse error: ${error.message}`)
+    }
 
-      if (isMsg) {
-        // 处理消息
-        await this.handleMsgCall(serviceName as keyof T["msg"], data, context)
-        res.writeHead(200, { "Content-Type": "application/json" })
-        res.end(JSON.stringify({ success: true }))
-      } else {
-        // 处理API
-        const result = await this.handleApiCall(serviceName as keyof T["api"], data, context)
+    if (this.isJsonRpcService(serviceName)) {
+      // JSON-RPC调用，通知没有响应
+      const response = await this.handleJsonRpc(data, context)
+      return response
+        ? this.createResponse(context, JSON.stringify(response), "application/json")
+        : { status: 204, headers: {} }
+    } else if (isMsg) {
+      // 处理消息
+      await this.handleMsgCall(serviceName as keyof T["msg"], data, context)
+      return this.createResponse(context, JSON.stringify({ success: true }), "application/json")
+    } else if (this.isBatchService(serviceName)) {
+      // 批量调用
+      if (!Array.isArray(data)) {
+        return this.errorResponse(400, "Batch request body must be an array")
+      }
+      const maxSize = this.serverOptions.batch!.maxSize ?? 50
+      if (data.length > maxSize) {
+        return this.errorResponse(413, `Batch request exceeds ${maxSize} calls`)
+      }
 
-        res.writeHead(200, { "Content-Type": "application/json" })
-        res.end(JSON.stringify(result))
+      const results = await this.handleBatchCalls(data, context)
+      return this.createResponse(context, JSON.stringify(results), "application/json")
+    } else {
+      // 处理API
+      const result = await this.handleApiCall(serviceName as keyof T["api"], data, context)
+      return this.createResponse(context, JSON.stringify(result), "application/json")
+    }
+  }
+
+  /**
+   * 是否为批量调用路径
+   */
+  private isBatchService(serviceName: string): boolean {
+    const batch = this.serverOptions.batch
+    return !!batch && serviceName === (batch.path ?? "batch")
+  }
+
+  /**
+   * 执行批量调用，共用同一个连接，单个调用失败不影响其它调用
+   * 每个调用有独立的startTime和state，结果顺序与请求一致
+   */
+  private async handleBatchCalls(
+    calls: LightweightBatchCall<T>[],
+    context: LightweightCallContext<C>
+  ): Promise<LightweightApiReturn[]> {
+    const runCall = async (call: LightweightBatchCall<T>, index: number) => {
+      const sn = typeof call?.sn === "number" ? call.sn : index
+      if (typeof call?.apiName !== "string") {
+        return {
+          isSucc: false,
+          err: {
+            message: "Invalid batch call: apiName is required",
+            code: "INVALID_BATCH_CALL",
+            type: "ClientError",
+          },
+          sn,
+        } as LightweightApiReturn
+      }
+
+      try {
+        const result = await this.handleApiCall(
+          call.apiName,
+          call.req,
+          this.forkCallContext(context)
+        )
+        return { ...result, sn }
+      } catch (error: any) {
+        context.logger.error(`Batch call ${call.apiName} error:`, error)
+        return {
+          isSucc: false,
+          err: {
+            message: error.message || "Internal server error",
+            code: "INTERNAL_ERROR",
+            type: "ServerError",
+          },
+          sn,
+        } as LightweightApiReturn
+      }
+    }
+
+    if (!this.serverOptions.batch!.sequential) {
+      return Promise.all(calls.map(runCall))
+    }
+
+    const results: LightweightApiReturn[] = []
+    for (let i = 0; i < calls.length; ++i) {
+      results.push(await runCall(calls[i], i))
+    }
+    return results
+  }
+
+  /**
+   * 是否为JSON-RPC路径
+   */
+  private isJsonRpcService(serviceName: string): boolean {
+    const jsonRpc = this.serverOptions.jsonRpc
+    return !!jsonRpc && serviceName === (jsonRpc.path ?? "jsonrpc")
+  }
+
+  /**
+   * 处理JSON-RPC请求或批量请求，全部为通知时返回undefined
+   */
+  private async handleJsonRpc(
+    data: any,
+    context: LightweightCallContext<C>
+  ): Promise<LightweightJsonRpcResponse | LightweightJsonRpcResponse[] | undefined> {
+    if (!Array.isArray(data)) {
+      return this.handleJsonRpcCall(data, context)
+    }
+
+    const maxBatchSize = this.serverOptions.jsonRpc!.maxBatchSize ?? 50
+    if (!data.length || data.length > maxBatchSize) {
+      return createJsonRpcError(
+        null,
+        JSON_RPC_ERROR_CODES.INVALID_REQUEST,
+        data.length ? `Batch request exceeds ${maxBatchSize} calls` : "Empty batch request"
+      )
+    }
+
+    const responses = await Promise.all(data.map(item => this.handleJsonRpcCall(item, context)))
+    const results = responses.filter((v): v is LightweightJsonRpcResponse => v !== undefined)
+    return results.length ? results : undefined
+  }
+
+  /**
+   * 处理单个JSON-RPC请求
+   * 带id的请求调用同名API，通知（没有id）发送同名消息
+   */
+  private async handleJsonRpcCall(
+    request: any,
+    context: LightweightCallContext<C>
+  ): Promise<LightweightJsonRpcResponse | undefined> {
+    const invalid = validateJsonRpcRequest(request)
+    if (invalid) {
+      const id =
+        typeof request?.id === "string" || typeof request?.id === "number" ? request.id : null
+      return createJsonRpcError(id, JSON_RPC_ERROR_CODES.INVALID_REQUEST, invalid)
+    }
+
+    const isNotification = !("id" in request)
+    const id = isNotification ? null : request.id
+    const req = jsonRpcParamsToReq(request.params)
+    if (req === undefined) {
+      return isNotification
+        ? undefined
+        : createJsonRpcError(
+            id,
+            JSON_RPC_ERROR_CODES.INVALID_PARAMS,
+            "Positional params must contain exactly one element"
+          )
+    }
+
+    try {
+      if (isNotification) {
+        await this.handleMsgCall(request.method, req, this.forkCallContext(context))
+        return undefined
       }
+
+      const result = await this.handleApiCall(request.method, req, this.forkCallContext(context))
+      return toJsonRpcResponse(id, result, {
+        ...DEFAULT_JSON_RPC_ERROR_CODES,
+        ...this.serverOptions.jsonRpc!.errorCodes,
+      })
     } catch (error: any) {
-      this.sendError(res, 400, `JSON parse error: ${error.message}`)
+      context.logger.error(`JSON-RPC call ${request.method} error:`, error)
+      return isNotification
+        ? undefined
+        : createJsonRpcError(
+            id,
+            JSON_RPC_ERROR_CODES.INTERNAL_ERROR,
+            error.message || "Internal server error"
+          )
     }
   }
 
+  /**
+   * 为同一请求中的多个调用创建独立的上下文，共用连接，startTime和state各自独立
+   */
+  private forkCallContext(context: LightweightCallContext<C>): LightweightCallContext<C> {
+    return { ...context, startTime: Date.now(), state: {} as C }
+  }
+
   /**
    * 处理二进制请求
    */
   private async handleBinaryRequest(
     serviceName: string,
-    body: Buffer,
-    context: LightweightCallContext,
-    res: http.ServerResponse
-  ): Promise<void> {
-    const input = this.parseServerInput(new Uint8Array(body))
+    body: Uint8Array,
+    context: LightweightCallContext<C>
+  ): Promise<LightweightHttpResponseInfo> {
+    const input = this.parseServerInput(body)
     if (!input) {
-      this.sendError(res, 400, "Invalid binary data")
-      return
+      return this.errorResponse(400, "Invalid binary data")
     }
 
     if (input.type === "msg") {
       // 处理消息
       await this.handleMsgCall(input.serviceName as keyof T["msg"], input.data, context)
 
-      const responseData = this.protocolGenerator.serialize({ success: true })
-      res.writeHead(200, { "Content-Type": "application/octet-stream" })
-      res.end(Buffer.from(responseData as Uint8Array))
+      const responseData = this.protocolGenerator.serialize({ success: true }, "binary")
+      return this.createResponse(context, responseData, "application/octet-stream")
     } else {
       // 处理API
       const result = await this.handleApiCall(
@@ -310,31 +1380,96 @@ export class LightweightHttpServer<
         context
       )
 
-      const responseData = this.protocolGenerator.serialize({
-        ...result,
-        sn: input.sn,
-      })
+      const responseData = this.protocolGenerator.serialize(
+        {
+          ...result,
+          sn: input.sn,
+        },
+        "binary"
+      )
+      return this.createResponse(context, responseData, "application/octet-stream")
+    }
+  }
+
+  /**
+   * 处理tsrpc-base-client的二进制请求
+   * 请求体为ServerInputData，返回ServerOutputData
+   */
+  private async handleTsrpcBufferRequest(
+    body: Uint8Array,
+    context: LightweightCallContext<C>
+  ): Promise<LightweightHttpResponseInfo> {
+    const input = this.tsrpcCodec.decodeInput(body)
+    if (!input.isSucc) {
+      return this.createResponse(
+        context,
+        this.tsrpcCodec.encodeInputError(input.errMsg),
+        "application/octet-stream"
+      )
+    }
+
+    if (input.type === "msg") {
+      await this.handleMsgCall(input.serviceName as keyof T["msg"], input.data, context)
+      return this.createResponse(context, new Uint8Array(0), "application/octet-stream")
+    }
 
-      res.writeHead(200, { "Content-Type": "application/octet-stream" })
-      res.end(Buffer.from(responseData as Uint8Array))
+    const result = await this.handleApiCall(
+      input.serviceName as keyof T["api"],
+      input.data,
+      context
+    )
+    return this.createResponse(
+      context,
+      this.tsrpcCodec.encodeApiReturn(input.serviceName, result, input.sn),
+      "application/octet-stream"
+    )
+  }
+
+  /**
+   * 执行preSendData流程后生成响应
+   */
+  private async createResponse(
+    context: LightweightCallContext<C>,
+    data: string | Uint8Array,
+    contentType: string
+  ): Promise<LightweightHttpResponseInfo> {
+    const payload = await this.runPreSendData(data, context)
+    if (payload === undefined) {
+      return this.errorResponse(500, "Response canceled by preSendData flow")
     }
+
+    return { status: 200, headers: { "Content-Type": contentType }, body: payload }
   }
 
   /**
-   * 设置响应头
+   * 统一转换为二进制
    */
-  private setResponseHeaders(res: http.ServerResponse, req: http.IncomingMessage): void {
-    res.setHeader("X-Powered-By", "TSRPC-Lightweight")
+  private toUint8Array(data: string | Uint8Array): Uint8Array {
+    return typeof data === "string" ? new TextEncoder().encode(data) : data
+  }
+
+  /**
+   * 通用响应头
+   */
+  private getResponseHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { "X-Powered-By": "TSRPC-Lightweight" }
+
+    // 停止中时不再复用连接
+    if (this._status === LightweightServerStatus.Closing) {
+      headers["Connection"] = "close"
+    }
 
     if (this.serverOptions.cors) {
-      res.setHeader("Access-Control-Allow-Origin", this.serverOptions.cors)
-      res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization, *")
-      res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS")
+      headers["Access-Control-Allow-Origin"] = this.serverOptions.cors
+      headers["Access-Control-Allow-Headers"] = "Content-Type, Authorization, *"
+      headers["Access-Control-Allow-Methods"] = "POST, OPTIONS"
 
       if (this.serverOptions.corsMaxAge) {
-        res.setHeader("Access-Control-Max-Age", this.serverOptions.corsMaxAge.toString())
+        headers["Access-Control-Max-Age"] = this.serverOptions.corsMaxAge.toString()
       }
     }
+
+    return headers
   }
 
   /**
@@ -363,10 +1498,30 @@ export class LightweightHttpServer<
     return { serviceName: serviceName || undefined, isMsg }
   }
 
+  /**
+   * 是否为jsonHostPath本身（不含服务名称）
+   */
+  private isJsonHostRoot(url: string): boolean {
+    const path = url.split("?")[0]
+    return (
+      path === this.serverOptions.jsonHostPath || path + "/" === this.serverOptions.jsonHostPath
+    )
+  }
+
   /**
    * 读取请求体
    */
   private readRequestBody(req: http.IncomingMessage): Promise<Buffer> {
+    // 已被Express等的body parser读取时，使用解析后的结果
+    const parsed = (req as any).body
+    if (req.readableEnded && parsed !== undefined) {
+      return Promise.resolve(
+        Buffer.isBuffer(parsed)
+          ? parsed
+          : Buffer.from(typeof parsed === "string" ? parsed : JSON.stringify(parsed))
+      )
+    }
+
     return new Promise((resolve, reject) => {
       const chunks: Buffer[] = []
 
@@ -385,41 +1540,45 @@ export class LightweightHttpServer<
   }
 
   /**
-   * 获取客户端IP
+   * 获取客户端IP，开启trustProxy时优先使用代理请求头
    */
-  private getClientIp(req: http.IncomingMessage): string {
-    const forwarded = req.headers["x-forwarded-for"] as string
+  private getClientIp(
+    header: (name: string) => string | undefined,
+    remoteAddress?: string
+  ): string {
+    if (!this.options.trustProxy) {
+      return remoteAddress || "0.0.0.0"
+    }
+
+    const forwarded = header("x-forwarded-for")
     if (forwarded) {
       return forwarded.split(",")[0].trim()
     }
 
-    const realIp = req.headers["x-real-ip"] as string
+    const realIp = header("x-real-ip")
     if (realIp) {
       return realIp
     }
 
-    return req.socket.remoteAddress || "0.0.0.0"
+    return remoteAddress || "0.0.0.0"
   }
 
   /**
-   * 发送错误响应
+   * 生成错误响应
    */
-  private sendError(res: http.ServerResponse, statusCode: number, message: string): void {
-    if (res.headersSent) {
-      return
-    }
-
-    res.writeHead(statusCode, { "Content-Type": "application/json" })
-    res.end(
-      JSON.stringify({
+  private errorResponse(statusCode: number, message: string): LightweightHttpResponseInfo {
+    return {
+      status: statusCode,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
         isSucc: false,
         err: {
           message,
           code: statusCode.toString(),
           type: "ServerError",
         },
-      })
-    )
+      }),
+    }
   }
 
   /**
@@ -446,21 +1605,18 @@ export class LightweightHttpServer<
    * 创建HTTP调用上下文
    */
   private createHttpCallContext(
-    connId: string,
-    clientIp: string,
-    req: http.IncomingMessage,
-    res: http.ServerResponse
-  ): LightweightCallContext {
+    connection: LightweightConnection,
+    extra: Record<string, any>
+  ): LightweightCallContext<C> {
+    const { id: connId, ip: clientIp } = connection
+
     return {
       connId,
       clientIp,
       startTime: Date.now(),
-      extra: {
-        httpReq: req,
-        httpRes: res,
-        userAgent: req.headers["user-agent"],
-        referer: req.headers["referer"],
-      },
+      signal: connection.signal,
+      extra,
+      state: {} as C,
       logger: {
         log: (...args) => console.log(`[HTTP ${connId}]`, ...args),
         warn: (...args) => console.warn(`[HTTP ${connId}]`, ...args),
@@ -470,6 +1626,18 @@ export class LightweightHttpServer<
     }
   }
 
+  /**
+   * 生成OpenAPI 3.1文档
+   */
+  getOpenApiDocument(
+    options: Omit<LightweightOpenApiOptions, "jsonHostPath"> = this.serverOptions.openApi ?? {}
+  ): LightweightOpenApiDocument {
+    return generateOpenApiDocument(this.protocolGenerator, {
+      ...options,
+      jsonHostPath: this.serverOptions.jsonHostPath,
+    })
+  }
+
   /**
    * 获取服务器信息
    */
@@ -492,8 +1660,9 @@ export class LightweightHttpServer<
 /**
  * 创建轻量级HTTP服务器的便捷函数
  */
-export function createLightweightHttpServer<T extends LightweightServiceType>(
-  options?: Partial<LightweightHttpServerOptions>
-): LightweightHttpServer<T> {
-  return new LightweightHttpServer<T>(options)
+export function createLightweightHttpServer<
+  T extends LightweightServiceType,
+  C extends object = Record<string, any>,
+>(options?: Partial<LightweightHttpServerOptions>): LightweightHttpServer<T, C> {
+  return new LightweightHttpServer<T, C>(options)
 }
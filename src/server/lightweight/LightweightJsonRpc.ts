@@ -0,0 +1,134 @@
+import { LightweightApiError, LightweightApiReturn } from "./LightweightTypes"
+
+/**
+ * JSON-RPC 2.0预定义错误码
+ */
+export const JSON_RPC_ERROR_CODES = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  /** 未配置映射的错误码，属于JSON-RPC保留给服务端实现的范围 */
+  SERVER_ERROR: -32000,
+} as const
+
+/**
+ * LightweightError.code到JSON-RPC错误码的默认映射
+ */
+export const DEFAULT_JSON_RPC_ERROR_CODES: Record<string, number> = {
+  HANDLER_NOT_FOUND: JSON_RPC_ERROR_CODES.METHOD_NOT_FOUND,
+  INVALID_REQUEST: JSON_RPC_ERROR_CODES.INVALID_PARAMS,
+  INTERNAL_ERROR: JSON_RPC_ERROR_CODES.INTERNAL_ERROR,
+}
+
+/**
+ * JSON-RPC端点选项
+ */
+export interface LightweightJsonRpcOptions {
+  /** 相对jsonHostPath的路径，默认 `jsonrpc` */
+  path?: string
+  /** LightweightError.code到JSON-RPC错误码的映射，与默认映射合并 */
+  errorCodes?: Record<string, number>
+  /** 批量请求最多包含的调用数，默认50 */
+  maxBatchSize?: number
+}
+
+/**
+ * JSON-RPC请求，没有id时为通知
+ */
+export interface LightweightJsonRpcRequest {
+  jsonrpc: "2.0"
+  method: string
+  params?: Record<string, any> | any[]
+  id?: string | number | null
+}
+
+/**
+ * JSON-RPC错误对象
+ * data中保留原始的code、type等字段
+ */
+export interface LightweightJsonRpcError {
+  code: number
+  message: string
+  data?: Omit<LightweightApiError, "message">
+}
+
+/**
+ * JSON-RPC响应
+ */
+export type LightweightJsonRpcResponse =
+  | { jsonrpc: "2.0"; result: any; id: string | number | null }
+  | { jsonrpc: "2.0"; error: LightweightJsonRpcError; id: string | number | null }
+
+/**
+ * 校验JSON-RPC请求格式，返回错误信息，合法时返回undefined
+ */
+export function validateJsonRpcRequest(request: any): string | undefined {
+  if (typeof request !== "object" || request === null || Array.isArray(request)) {
+    return "Request must be an object"
+  }
+  if (request.jsonrpc !== "2.0") {
+    return `Invalid jsonrpc version: ${request.jsonrpc}`
+  }
+  if (typeof request.method !== "string" || !request.method) {
+    return "Method must be a non-empty string"
+  }
+  if (request.params !== undefined && (typeof request.params !== "object" || !request.params)) {
+    return "Params must be an object or an array"
+  }
+  if (
+    "id" in request &&
+    request.id !== null &&
+    typeof request.id !== "string" &&
+    typeof request.id !== "number"
+  ) {
+    return "Id must be a string, a number or null"
+  }
+  return undefined
+}
+
+/**
+ * 将params转换为API请求，按名称传参时即为请求本身，按位置传参时只接受一个参数
+ * 无法转换时返回undefined
+ */
+export function jsonRpcParamsToReq(params: LightweightJsonRpcRequest["params"]): any {
+  if (params === undefined) {
+    return {}
+  }
+  if (!Array.isArray(params)) {
+    return params
+  }
+  return params.length === 1 ? params[0] : undefined
+}
+
+/**
+ * 创建JSON-RPC错误响应
+ */
+export function createJsonRpcError(
+  id: string | number | null,
+  code: number,
+  message: string,
+  data?: LightweightJsonRpcError["data"]
+): LightweightJsonRpcResponse {
+  return { jsonrpc: "2.0", error: { code, message, ...(data && { data }) }, id }
+}
+
+/**
+ * 将API返回转换为JSON-RPC响应
+ * @param errorCodes LightweightError.code到JSON-RPC错误码的映射，未配置的错误码为-32000
+ */
+export function toJsonRpcResponse(
+  id: string | number | null,
+  ret: LightweightApiReturn,
+  errorCodes: Record<string, number> = DEFAULT_JSON_RPC_ERROR_CODES
+): LightweightJsonRpcResponse {
+  if (ret.isSucc) {
+    // 成功响应必须包含result，没有返回值的处理器返回null
+    return { jsonrpc: "2.0", result: ret.res === undefined ? null : ret.res, id }
+  }
+
+  const { message, ...data } = ret.err
+  const code = errorCodes[data.code ?? ""] ?? JSON_RPC_ERROR_CODES.SERVER_ERROR
+  return createJsonRpcError(id, code, message, data)
+}
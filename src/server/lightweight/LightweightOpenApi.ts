@@ -0,0 +1,231 @@
+import {
+  LightweightSchema,
+  LightweightStringSchema,
+  LightweightNumberSchema,
+  LightweightLiteralSchema,
+  LightweightOptionalSchema,
+  LightweightArraySchema,
+  LightweightObjectSchema,
+  LightweightUnionSchema,
+} from "./LightweightSchema"
+import { LightweightServiceType } from "./LightweightTypes"
+import { RuntimeProtocolGenerator } from "./RuntimeProtocolGenerator"
+
+/**
+ * OpenAPI导出选项
+ */
+export interface LightweightOpenApiOptions {
+  /** 文档标题 */
+  title?: string
+  /** 文档版本 */
+  version?: string
+  /** 文档描述 */
+  description?: string
+  /** 服务器地址列表 */
+  servers?: Array<{ url: string; description?: string }>
+  /** JSON API路径前缀，需与HTTP服务器的jsonHostPath一致 */
+  jsonHostPath?: string
+}
+
+/**
+ * JSON Schema（OpenAPI 3.1使用JSON Schema 2020-12）
+ */
+export type LightweightJsonSchema = Record<string, any>
+
+/**
+ * OpenAPI 3.1文档
+ */
+export interface LightweightOpenApiDocument {
+  openapi: "3.1.0"
+  info: { title: string; version: string; description?: string }
+  servers?: Array<{ url: string; description?: string }>
+  paths: Record<string, Record<string, any>>
+  components: { schemas: Record<string, LightweightJsonSchema> }
+}
+
+/**
+ * 把Schema转换为JSON Schema
+ * Date按JSON传输时为ISO字符串，Uint8Array仅在二进制传输时有意义
+ */
+export function schemaToJsonSchema(schema: LightweightSchema): LightweightJsonSchema {
+  if (schema instanceof LightweightStringSchema) {
+    const { minLength, maxLength, pattern } = schema.options
+    return {
+      type: "string",
+      ...(minLength !== undefined && { minLength }),
+      ...(maxLength !== undefined && { maxLength }),
+      ...(pattern && { pattern: pattern.source }),
+    }
+  }
+
+  if (schema instanceof LightweightNumberSchema) {
+    const { min, max, integer } = schema.options
+    return {
+      type: integer ? "integer" : "number",
+      ...(min !== undefined && { minimum: min }),
+      ...(max !== undefined && { maximum: max }),
+    }
+  }
+
+  if (schema instanceof LightweightLiteralSchema) {
+    return { const: schema.literal }
+  }
+
+  if (schema instanceof LightweightOptionalSchema) {
+    return schemaToJsonSchema(schema.inner)
+  }
+
+  if (schema instanceof LightweightArraySchema) {
+    const { minLength, maxLength } = schema.options
+    return {
+      type: "array",
+      items: schemaToJsonSchema(schema.element),
+      ...(minLength !== undefined && { minItems: minLength }),
+      ...(maxLength !== undefined && { maxItems: maxLength }),
+    }
+  }
+
+  if (schema instanceof LightweightObjectSchema) {
+    const properties: Record<string, LightweightJsonSchema> = {}
+    const required: string[] = []
+    for (const [key, value] of Object.entries(schema.shape as Record<string, LightweightSchema>)) {
+      properties[key] = schemaToJsonSchema(value)
+      if (!(value instanceof LightweightOptionalSchema)) {
+        required.push(key)
+      }
+    }
+    return {
+      type: "object",
+      properties,
+      ...(required.length && { required }),
+      ...(schema.options.strict && { additionalProperties: false }),
+    }
+  }
+
+  if (schema instanceof LightweightUnionSchema) {
+    const members = schema.members as readonly LightweightSchema[]
+    // 全部为字面量时使用enum
+    if (members.every(v => v instanceof LightweightLiteralSchema)) {
+      return { enum: members.map(v => (v as LightweightLiteralSchema<any>).literal) }
+    }
+    return { anyOf: members.map(v => schemaToJsonSchema(v)) }
+  }
+
+  switch (schema.kind) {
+    case "boolean":
+      return { type: "boolean" }
+    case "date":
+      return { type: "string", format: "date-time" }
+    case "buffer":
+      return { type: "string", format: "binary" }
+    default:
+      return {}
+  }
+}
+
+/**
+ * 根据运行时协议生成OpenAPI 3.1文档
+ * 每个API对应一个 `POST {jsonHostPath}{apiName}` 操作，响应为LightweightApiReturn包装后的结构
+ */
+export function generateOpenApiDocument<T extends LightweightServiceType>(
+  generator: RuntimeProtocolGenerator<T>,
+  options: LightweightOpenApiOptions = {}
+): LightweightOpenApiDocument {
+  const protocol = generator.getProtocol()
+  const jsonHostPath = options.jsonHostPath ?? "/api/"
+  const paths: LightweightOpenApiDocument["paths"] = {}
+
+  for (const apiName of protocol.apiNames) {
+    const apiNameStr = String(apiName)
+    const apiSchemas = protocol.schemas?.api[apiName]
+    const reqSchema = apiSchemas?.req ? schemaToJsonSchema(apiSchemas.req) : {}
+    const resSchema = apiSchemas?.res ? schemaToJsonSchema(apiSchemas.res) : {}
+
+    paths[`${jsonHostPath}${apiNameStr}`] = {
+      post: {
+        operationId: apiNameStr,
+        tags: apiNameStr.includes("/") ? [apiNameStr.split("/")[0]] : undefined,
+        requestBody: {
+          required: true,
+          content: { "application/json": { schema: reqSchema } },
+        },
+        responses: {
+          "200": {
+            description:
+              "API返回：成功时 `isSucc` 为true并携带 `res`，失败时 `isSucc` 为false并携带 `err`",
+            content: {
+              "application/json": {
+                schema: {
+                  oneOf: [
+                    {
+                      type: "object",
+                      properties: { isSucc: { const: true }, res: resSchema },
+                      required: ["isSucc", "res"],
+                    },
+                    { $ref: "#/components/schemas/ApiReturnError" },
+                  ],
+                },
+              },
+            },
+          },
+        },
+      },
+    }
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: options.title ?? "TSRPC Lightweight API",
+      version: options.version ?? "1.0.0",
+      ...(options.description && { description: options.description }),
+    },
+    ...(options.servers && { servers: options.servers }),
+    paths,
+    components: {
+      schemas: {
+        ValidationIssue: {
+          type: "object",
+          properties: {
+            path: { type: "string", description: "JSONPath，如 $.user.tags[0]" },
+            expected: { type: "string" },
+            received: {},
+          },
+          required: ["path", "expected"],
+        },
+        ApiError: {
+          type: "object",
+          properties: {
+            message: { type: "string" },
+            code: { type: "string" },
+            type: { type: "string" },
+            issues: { type: "array", items: { $ref: "#/components/schemas/ValidationIssue" } },
+            protocol: {
+              type: "object",
+              description: "协议不一致（PROTOCOL_MISMATCH）时双方的协议指纹",
+              properties: { server: { type: "string" }, client: { type: "string" } },
+              required: ["server", "client"],
+            },
+            retryable: {
+              type: "boolean",
+              description: "是否可以稍后重试，如SERVER_CLOSING、RATE_LIMITED",
+            },
+            retryAfter: {
+              type: "integer",
+              description: "建议的重试等待时间（毫秒），如RATE_LIMITED",
+            },
+          },
+          required: ["message"],
+        },
+        ApiReturnError: {
+          type: "object",
+          properties: {
+            isSucc: { const: false },
+            err: { $ref: "#/components/schemas/ApiError" },
+          },
+          required: ["isSucc", "err"],
+        },
+      },
+    },
+  }
+}
@@ -0,0 +1,292 @@
+import { LightweightApiError, LightweightCallContext } from "./LightweightTypes"
+
+/**
+ * 限流算法
+ * - tokenBucket：令牌桶，允许短时突发，令牌按 `limit / windowMs` 的速率恢复
+ * - slidingWindow：滑动窗口，任意 `windowMs` 时间内最多 `limit` 次
+ */
+export type LightweightRateLimitAlgorithm = "tokenBucket" | "slidingWindow"
+
+/**
+ * 限流键
+ * - ip：按客户端IP
+ * - connection：按连接（HTTP每个请求都是新连接，通常用于WebSocket）
+ * - 函数：自定义，如按用户ID
+ */
+export type LightweightRateLimitKey =
+  "ip" | "connection" | ((apiName: string, context: LightweightCallContext) => string)
+
+/**
+ * 限流规则
+ */
+export interface LightweightRateLimitRule {
+  /** 匹配的API名称，`user/*` 匹配前缀，`*` 匹配所有API；前缀规则下的API共享同一份额度 */
+  match: string
+  /** 限流算法，默认tokenBucket */
+  algorithm?: LightweightRateLimitAlgorithm
+  /** 每个窗口允许的调用次数，不设置时不限制频率 */
+  limit?: number
+  /** 窗口时长（毫秒），默认1000 */
+  windowMs?: number
+  /** 同时执行的最大调用数，不设置时不限制 */
+  maxConcurrent?: number
+  /** 限流键，默认ip */
+  key?: LightweightRateLimitKey
+}
+
+/**
+ * 频率限制检查结果
+ */
+export interface LightweightRateLimitResult {
+  allowed: boolean
+  /** 被拒绝时建议的重试等待时间（毫秒） */
+  retryAfter?: number
+}
+
+/**
+ * 限流状态存储
+ * 多进程部署时可基于Redis等实现，方法可以是异步的
+ */
+export interface LightweightRateLimitStore {
+  /** 消耗一次调用额度 */
+  consume(
+    key: string,
+    algorithm: LightweightRateLimitAlgorithm,
+    limit: number,
+    windowMs: number
+  ): LightweightRateLimitResult | Promise<LightweightRateLimitResult>
+  /** 占用一个并发名额，返回是否成功 */
+  acquire(key: string, maxConcurrent: number): boolean | Promise<boolean>
+  /** 释放并发名额 */
+  release(key: string): void | Promise<void>
+}
+
+/**
+ * 限流选项
+ */
+export interface LightweightRateLimitOptions {
+  /** 限流规则，一次调用匹配的所有规则都会生效 */
+  rules: LightweightRateLimitRule[]
+  /** 状态存储，默认为内存存储 */
+  store?: LightweightRateLimitStore
+}
+
+/**
+ * 内存限流存储
+ * 过期的状态在后续调用时定期清理
+ */
+export class LightweightMemoryRateLimitStore implements LightweightRateLimitStore {
+  private buckets = new Map<string, { tokens: number; updatedAt: number; expiresAt: number }>()
+  private windows = new Map<string, { hits: number[]; expiresAt: number }>()
+  private concurrent = new Map<string, number>()
+  private lastSweep = Date.now()
+
+  /** 清理过期状态的间隔（毫秒） */
+  static sweepInterval = 60000
+
+  consume(
+    key: string,
+    algorithm: LightweightRateLimitAlgorithm,
+    limit: number,
+    windowMs: number
+  ): LightweightRateLimitResult {
+    const now = Date.now()
+    this.sweep(now)
+
+    return algorithm === "slidingWindow"
+      ? this.consumeWindow(key, limit, windowMs, now)
+      : this.consumeBucket(key, limit, windowMs, now)
+  }
+
+  acquire(key: string, maxConcurrent: number): boolean {
+    const count = this.concurrent.get(key) ?? 0
+    if (count >= maxConcurrent) {
+      return false
+    }
+    this.concurrent.set(key, count + 1)
+    return true
+  }
+
+  release(key: string): void {
+    const count = this.concurrent.get(key) ?? 0
+    if (count <= 1) {
+      this.concurrent.delete(key)
+    } else {
+      this.concurrent.set(key, count - 1)
+    }
+  }
+
+  /**
+   * 清空所有状态
+   */
+  clear(): void {
+    this.buckets.clear()
+    this.windows.clear()
+    this.concurrent.clear()
+  }
+
+  private consumeBucket(
+    key: string,
+    limit: number,
+    windowMs: number,
+    now: number
+  ): LightweightRateLimitResult {
+    const rate = limit / windowMs
+    const bucket = this.buckets.get(key) ?? { tokens: limit, updatedAt: now, expiresAt: now }
+    bucket.tokens = Math.min(limit, bucket.tokens + (now - bucket.updatedAt) * rate)
+    bucket.updatedAt = now
+
+    if (bucket.tokens < 1) {
+      this.buckets.set(key, bucket)
+      return { allowed: false, retryAfter: Math.ceil((1 - bucket.tokens) / rate) }
+    }
+
+    bucket.tokens -= 1
+    // 令牌恢复满之后与新建的桶等价，可以清理
+    bucket.expiresAt = now + Math.ceil((limit - bucket.tokens) / rate)
+    this.buckets.set(key, bucket)
+    return { allowed: true }
+  }
+
+  private consumeWindow(
+    key: string,
+    limit: number,
+    windowMs: number,
+    now: number
+  ): LightweightRateLimitResult {
+    const window = this.windows.get(key) ?? { hits: [], expiresAt: now }
+    const start = now - windowMs
+    while (window.hits.length && window.hits[0] <= start) {
+      window.hits.shift()
+    }
+
+    if (window.hits.length >= limit) {
+      this.windows.set(key, window)
+      return { allowed: false, retryAfter: window.hits[0] + windowMs - now }
+    }
+
+    window.hits.push(now)
+    window.expiresAt = now + windowMs
+    this.windows.set(key, window)
+    return { allowed: true }
+  }
+
+  private sweep(now: number): void {
+    if (now - this.lastSweep < LightweightMemoryRateLimitStore.sweepInterval) {
+      return
+    }
+    this.lastSweep = now
+
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.expiresAt <= now) {
+        this.buckets.delete(key)
+      }
+    }
+    for (const [key, window] of this.windows) {
+      if (window.expiresAt <= now) {
+        this.windows.delete(key)
+      }
+    }
+  }
+}
+
+/**
+ * 限流器
+ * 在API处理前检查频率和并发限制，不依赖flows，不会被setFlows覆盖
+ *
+ * @example
+ * const limiter = new LightweightRateLimiter({
+ *   rules: [
+ *     { match: "*", limit: 100, windowMs: 60000 },
+ *     { match: "user/*", limit: 5, windowMs: 1000, algorithm: "slidingWindow" },
+ *     { match: "report/Export", maxConcurrent: 2, key: "ip" },
+ *   ],
+ * })
+ */
+export class LightweightRateLimiter {
+  readonly rules: LightweightRateLimitRule[]
+  readonly store: LightweightRateLimitStore
+
+  constructor(options: LightweightRateLimitOptions) {
+    this.rules = options.rules
+    this.store = options.store ?? new LightweightMemoryRateLimitStore()
+  }
+
+  /**
+   * 检查一次API调用
+   * 通过时返回release，调用结束后必须执行以释放并发名额；被限流时返回RATE_LIMITED错误
+   */
+  async acquire(
+    apiName: string,
+    context: LightweightCallContext
+  ): Promise<
+    { isSucc: true; release: () => Promise<void> } | { isSucc: false; err: LightweightApiError }
+  > {
+    const acquired: string[] = []
+    const release = async () => {
+      await Promise.all(acquired.map(key => this.store.release(key)))
+    }
+
+    for (let i = 0; i < this.rules.length; ++i) {
+      const rule = this.rules[i]
+      if (!this.matchRule(rule.match, apiName)) {
+        continue
+      }
+
+      const key = `${i}|${rule.match}|${this.getKey(rule.key ?? "ip", apiName, context)}`
+
+      if (rule.limit !== undefined) {
+        const ret = await this.store.consume(
+          key,
+          rule.algorithm ?? "tokenBucket",
+          rule.limit,
+          rule.windowMs ?? 1000
+        )
+        if (!ret.allowed) {
+          await release()
+          return { isSucc: false, err: this.createError(apiName, ret.retryAfter) }
+        }
+      }
+
+      if (rule.maxConcurrent !== undefined) {
+        if (!(await this.store.acquire(key, rule.maxConcurrent))) {
+          await release()
+          return { isSucc: false, err: this.createError(apiName) }
+        }
+        acquired.push(key)
+      }
+    }
+
+    return { isSucc: true, release }
+  }
+
+  private matchRule(match: string, apiName: string): boolean {
+    if (match === "*") {
+      return true
+    }
+    if (match.endsWith("/*")) {
+      return apiName.startsWith(match.slice(0, -1))
+    }
+    return match === apiName
+  }
+
+  private getKey(key: LightweightRateLimitKey, apiName: string, context: LightweightCallContext) {
+    if (key === "ip") {
+      return context.clientIp
+    }
+    if (key === "connection") {
+      return context.connId
+    }
+    return key(apiName, context)
+  }
+
+  private createError(apiName: string, retryAfter?: number): LightweightApiError {
+    return {
+      message: `Too many requests to ${apiName}, please retry later`,
+      code: "RATE_LIMITED",
+      type: "ApiError",
+      retryable: true,
+      ...(retryAfter !== undefined && { retryAfter }),
+    }
+  }
+}
@@ -0,0 +1,472 @@
+import { LightweightValidationIssue } from "./LightweightTypes"
+
+/**
+ * 轻量级运行时Schema
+ * 同一份定义既用于推断TypeScript类型，也用于运行时校验
+ *
+ * @example
+ * const ReqLogin = schema.object({
+ *   username: schema.string({ minLength: 3 }),
+ *   password: schema.string(),
+ *   remember: schema.optional(schema.boolean()),
+ * })
+ * type ReqLogin = InferSchema<typeof ReqLogin>
+ */
+export abstract class LightweightSchema<T = any> {
+  /** Schema种类，供协议导出等场景遍历使用 */
+  abstract readonly kind: string
+
+  /** 类型描述，用于校验失败时的expected字段 */
+  abstract get typeName(): string
+
+  /**
+   * 校验数据，把问题追加到issues中
+   * @internal 由组合Schema递归调用，外部请使用 is / validate
+   */
+  abstract _check(value: any, path: string, issues: LightweightValidationIssue[]): void
+
+  /**
+   * 类型守卫
+   */
+  is(value: any): value is T {
+    return this.validate(value).length === 0
+  }
+
+  /**
+   * 校验数据并返回所有问题，为空表示校验通过
+   */
+  validate(value: any): LightweightValidationIssue[] {
+    const issues: LightweightValidationIssue[] = []
+    this._check(value, "$", issues)
+    return issues
+  }
+
+  /**
+   * 转为可选
+   */
+  optional(): LightweightOptionalSchema<this> {
+    return new LightweightOptionalSchema(this)
+  }
+
+  protected issue(
+    issues: LightweightValidationIssue[],
+    path: string,
+    value: any,
+    expected: string = this.typeName
+  ): void {
+    issues.push({ path, expected, received: value })
+  }
+}
+
+/**
+ * 从Schema推断TypeScript类型
+ */
+export type InferSchema<S> = S extends LightweightSchema<infer T> ? T : never
+
+/**
+ * 字符串
+ */
+export class LightweightStringSchema extends LightweightSchema<string> {
+  readonly kind = "string"
+
+  constructor(
+    readonly options: {
+      minLength?: number
+      maxLength?: number
+      pattern?: RegExp
+    } = {}
+  ) {
+    super()
+  }
+
+  get typeName(): string {
+    return "string"
+  }
+
+  _check(value: any, path: string, issues: LightweightValidationIssue[]): void {
+    if (typeof value !== "string") {
+      this.issue(issues, path, value)
+      return
+    }
+
+    const { minLength, maxLength, pattern } = this.options
+    if (minLength !== undefined && value.length < minLength) {
+      this.issue(issues, path, value, `string with length >= ${minLength}`)
+    }
+    if (maxLength !== undefined && value.length > maxLength) {
+      this.issue(issues, path, value, `string with length <= ${maxLength}`)
+    }
+    if (pattern && !pattern.test(value)) {
+      this.issue(issues, path, value, `string matching ${pattern}`)
+    }
+  }
+}
+
+/**
+ * 数字
+ */
+export class LightweightNumberSchema extends LightweightSchema<number> {
+  readonly kind = "number"
+
+  constructor(
+    readonly options: {
+      min?: number
+      max?: number
+      integer?: boolean
+    } = {}
+  ) {
+    super()
+  }
+
+  get typeName(): string {
+    return this.options.integer ? "integer" : "number"
+  }
+
+  _check(value: any, path: string, issues: LightweightValidationIssue[]): void {
+    if (typeof value !== "number" || isNaN(value)) {
+      this.issue(issues, path, value)
+      return
+    }
+
+    const { min, max, integer } = this.options
+    if (integer && !Number.isInteger(value)) {
+      this.issue(issues, path, value)
+    }
+    if (min !== undefined && value < min) {
+      this.issue(issues, path, value, `${this.typeName} >= ${min}`)
+    }
+    if (max !== undefined && value > max) {
+      this.issue(issues, path, value, `${this.typeName} <= ${max}`)
+    }
+  }
+}
+
+/**
+ * 布尔值
+ */
+export class LightweightBooleanSchema extends LightweightSchema<boolean> {
+  readonly kind = "boolean"
+
+  get typeName(): string {
+    return "boolean"
+  }
+
+  _check(value: any, path: string, issues: LightweightValidationIssue[]): void {
+    if (typeof value !== "boolean") {
+      this.issue(issues, path, value)
+    }
+  }
+}
+
+/**
+ * 字面量
+ */
+export class LightweightLiteralSchema<
+  L extends string | number | boolean | null,
+> extends LightweightSchema<L> {
+  readonly kind = "literal"
+
+  constructor(readonly literal: L) {
+    super()
+  }
+
+  get typeName(): string {
+    return JSON.stringify(this.literal)
+  }
+
+  _check(value: any, path: string, issues: LightweightValidationIssue[]): void {
+    if (value !== this.literal) {
+      this.issue(issues, path, value)
+    }
+  }
+}
+
+/**
+ * 任意值
+ */
+export class LightweightAnySchema extends LightweightSchema<any> {
+  readonly kind = "any"
+
+  get typeName(): string {
+    return "any"
+  }
+
+  _check(): void {}
+}
+
+/**
+ * 日期（需要二进制序列化才能保持Date类型）
+ */
+export class LightweightDateSchema extends LightweightSchema<Date> {
+  readonly kind = "date"
+
+  get typeName(): string {
+    return "Date"
+  }
+
+  _check(value: any, path: string, issues: LightweightValidationIssue[]): void {
+    if (!(value instanceof Date) || isNaN(value.getTime())) {
+      this.issue(issues, path, value)
+    }
+  }
+}
+
+/**
+ * 二进制数据（需要二进制序列化）
+ */
+export class LightweightBufferSchema extends LightweightSchema<Uint8Array> {
+  readonly kind = "buffer"
+
+  get typeName(): string {
+    return "Uint8Array"
+  }
+
+  _check(value: any, path: string, issues: LightweightValidationIssue[]): void {
+    if (!(value instanceof Uint8Array)) {
+      this.issue(issues, path, value)
+    }
+  }
+}
+
+/**
+ * 可选值，在object中对应可选属性
+ */
+export class LightweightOptionalSchema<S extends LightweightSchema> extends LightweightSchema<
+  InferSchema<S> | undefined
+> {
+  readonly kind = "optional"
+  readonly isOptional = true
+
+  constructor(readonly inner: S) {
+    super()
+  }
+
+  get typeName(): string {
+    return `${this.inner.typeName} | undefined`
+  }
+
+  _check(value: any, path: string, issues: LightweightValidationIssue[]): void {
+    if (value !== undefined) {
+      this.inner._check(value, path, issues)
+    }
+  }
+}
+
+/**
+ * 数组
+ */
+export class LightweightArraySchema<S extends LightweightSchema> extends LightweightSchema<
+  InferSchema<S>[]
+> {
+  readonly kind = "array"
+
+  constructor(
+    readonly element: S,
+    readonly options: {
+      minLength?: number
+      maxLength?: number
+    } = {}
+  ) {
+    super()
+  }
+
+  get typeName(): string {
+    return `${this.element.typeName}[]`
+  }
+
+  _check(value: any, path: string, issues: LightweightValidationIssue[]): void {
+    if (!Array.isArray(value)) {
+      this.issue(issues, path, value, "array")
+      return
+    }
+
+    const { minLength, maxLength } = this.options
+    if (minLength !== undefined && value.length < minLength) {
+      this.issue(issues, path, value, `array with length >= ${minLength}`)
+    }
+    if (maxLength !== undefined && value.length > maxLength) {
+      this.issue(issues, path, value, `array with length <= ${maxLength}`)
+    }
+
+    value.forEach((item, index) => {
+      this.element._check(item, `${path}[${index}]`, issues)
+    })
+  }
+}
+
+/**
+ * 对象属性定义
+ */
+export type LightweightObjectShape = Record<string, LightweightSchema>
+
+type OptionalKeys<S extends LightweightObjectShape> = {
+  [K in keyof S]: S[K] extends LightweightOptionalSchema<any> ? K : never
+}[keyof S]
+
+type Flatten<T> = { [K in keyof T]: T[K] }
+
+/**
+ * 从对象属性定义推断对象类型，可选Schema对应可选属性
+ */
+export type InferObjectShape<S extends LightweightObjectShape> = Flatten<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: InferSchema<S[K]> } & {
+    [K in OptionalKeys<S>]?: InferSchema<S[K]>
+  }
+>
+
+/**
+ * 对象
+ */
+export class LightweightObjectSchema<S extends LightweightObjectShape> extends LightweightSchema<
+  InferObjectShape<S>
+> {
+  readonly kind = "object"
+
+  constructor(
+    readonly shape: S,
+    readonly options: {
+      /** 不允许出现未定义的属性 */
+      strict?: boolean
+    } = {}
+  ) {
+    super()
+  }
+
+  get typeName(): string {
+    return "object"
+  }
+
+  _check(value: any, path: string, issues: LightweightValidationIssue[]): void {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      this.issue(issues, path, value)
+      return
+    }
+
+    for (const key of Object.keys(this.shape)) {
+      this.shape[key]._check(value[key], joinPath(path, key), issues)
+    }
+
+    if (this.options.strict) {
+      for (const key of Object.keys(value)) {
+        if (!Object.prototype.hasOwnProperty.call(this.shape, key)) {
+          this.issue(issues, joinPath(path, key), value[key], "no additional property")
+        }
+      }
+    }
+  }
+}
+
+/**
+ * 联合类型
+ */
+export class LightweightUnionSchema<
+  S extends readonly LightweightSchema[],
+> extends LightweightSchema<InferSchema<S[number]>> {
+  readonly kind = "union"
+
+  constructor(readonly members: S) {
+    super()
+  }
+
+  get typeName(): string {
+    return this.members.map(v => v.typeName).join(" | ")
+  }
+
+  _check(value: any, path: string, issues: LightweightValidationIssue[]): void {
+    let closest: LightweightValidationIssue[] | undefined
+    for (const member of this.members) {
+      const memberIssues: LightweightValidationIssue[] = []
+      member._check(value, path, memberIssues)
+      if (memberIssues.length === 0) {
+        return
+      }
+      // 对象联合中，如果某个成员本身匹配，只是内部属性有问题，报告该成员的问题更有意义
+      if (!memberIssues.some(v => v.path === path) && !closest) {
+        closest = memberIssues
+      }
+    }
+
+    if (closest) {
+      issues.push(...closest)
+    } else {
+      this.issue(issues, path, value)
+    }
+  }
+}
+
+/**
+ * 拼接JSON路径
+ */
+function joinPath(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`
+}
+
+/**
+ * Schema构造函数
+ */
+export const schema = {
+  string: (options?: LightweightStringSchema["options"]) => new LightweightStringSchema(options),
+  number: (options?: LightweightNumberSchema["options"]) => new LightweightNumberSchema(options),
+  boolean: () => new LightweightBooleanSchema(),
+  literal: <L extends string | number | boolean | null>(literal: L) =>
+    new LightweightLiteralSchema(literal),
+  any: () => new LightweightAnySchema(),
+  date: () => new LightweightDateSchema(),
+  buffer: () => new LightweightBufferSchema(),
+  optional: <S extends LightweightSchema>(inner: S) => new LightweightOptionalSchema(inner),
+  array: <S extends LightweightSchema>(
+    element: S,
+    options?: LightweightArraySchema<S>["options"]
+  ) => new LightweightArraySchema(element, options),
+  object: <S extends LightweightObjectShape>(
+    shape: S,
+    options?: LightweightObjectSchema<S>["options"]
+  ) => new LightweightObjectSchema(shape, options),
+  union: <S extends readonly LightweightSchema[]>(...members: S) =>
+    new LightweightUnionSchema(members),
+}
+
+/**
+ * 服务Schema定义
+ */
+export interface LightweightServiceSchema {
+  api: {
+    [apiName: string]: {
+      req: LightweightSchema
+      res: LightweightSchema
+    }
+  }
+  msg: {
+    [msgName: string]: LightweightSchema
+  }
+}
+
+/**
+ * 从服务Schema推断服务类型，可直接作为LightweightServer的泛型参数
+ */
+export type InferServiceType<S extends LightweightServiceSchema> = {
+  api: {
+    [K in keyof S["api"]]: {
+      req: InferSchema<S["api"][K]["req"]>
+      res: InferSchema<S["api"][K]["res"]>
+    }
+  }
+  msg: {
+    [K in keyof S["msg"]]: InferSchema<S["msg"][K]>
+  }
+}
+
+/**
+ * 定义服务Schema，保留字面量类型以便推断
+ *
+ * @example
+ * const serviceSchema = defineServiceSchema({
+ *   api: { "user/login": { req: ReqLogin, res: ResLogin } },
+ *   msg: {},
+ * })
+ * type MyService = InferServiceType<typeof serviceSchema>
+ * const server = createLightweightHttpServer<MyService>({ schema: serviceSchema })
+ */
+export function defineServiceSchema<S extends LightweightServiceSchema>(serviceSchema: S): S {
+  return serviceSchema
+}
@@ -2,17 +2,37 @@
  * 独立的轻量级服务器基类
  * 不依赖原始的BaseServer，避免循环依赖问题
  */
+import * as fs from "fs"
+import * as path from "path"
 import {
   LightweightServiceType,
   LightweightApiHandler,
   LightweightMsgHandler,
   LightweightCallContext,
   LightweightFlows,
+  LightweightFlowChains,
   LightweightApiReturn,
   LightweightParsedInput,
-  LightweightProtocolOptions,
+  LightweightServerOptions,
+  LightweightSendResult,
+  LightweightApiOptions,
+  LightweightMsgOptions,
+  LightweightValidationIssue,
+  LightweightApiError,
+  LightweightGracefulStopResult,
+  LightweightApiName,
+  LightweightApiFlows,
+  LightweightPreApiCallData,
+  LightweightPreApiReturnData,
+  LightweightPostApiCallData,
+  LightweightMsgFlowData,
+  LightweightMiddleware,
+  LightweightAutoImplementResult,
+  LightweightLocalCallOptions,
 } from "./LightweightTypes"
 import { RuntimeProtocolGenerator } from "./RuntimeProtocolGenerator"
+import { LightweightFlow } from "./LightweightFlow"
+import { LightweightRateLimiter } from "./LightweightRateLimit"
 
 /**
  * 轻量级服务器状态枚举
@@ -39,21 +59,113 @@ export class LightweightError extends Error {
   }
 }
 
+/**
+ * 校验错误类
+ * 处理器中也可以抛出此错误，问题列表会原样返回给客户端
+ */
+export class LightweightValidationError extends LightweightError {
+  public readonly issues: LightweightValidationIssue[]
+
+  constructor(
+    message: string,
+    issues: LightweightValidationIssue[],
+    code: string = "INVALID_REQUEST",
+    type: string = "ClientError"
+  ) {
+    super(message, code, type)
+    this.name = "LightweightValidationError"
+    this.issues = issues
+  }
+}
+
+/**
+ * 轻量级连接抽象基类
+ * 每种传输方式实现自己的连接类，由sendData负责把序列化后的数据真正写出
+ */
+export abstract class LightweightConnection {
+  readonly id: string
+  readonly ip: string
+  /**
+   * 推送消息使用的序列化格式，不设置时按服务器的serializationMode
+   * 只能传输文本的连接（如SSE）为json；WebSocket按客户端最近发送的帧类型设置
+   */
+  readonly serializationMode?: "json" | "binary"
+  private readonly abortController = new AbortController()
+
+  constructor(id: string, ip: string) {
+    this.id = id
+    this.ip = ip
+  }
+
+  /**
+   * 连接断开时触发
+   */
+  get signal(): AbortSignal {
+    return this.abortController.signal
+  }
+
+  /**
+   * 标记连接已断开，触发signal
+   */
+  abort(): void {
+    if (!this.abortController.signal.aborted) {
+      this.abortController.abort()
+    }
+  }
+
+  /**
+   * 连接状态
+   */
+  abstract get status(): string
+
+  /**
+   * 发送已序列化的数据，写出失败时返回错误信息而不是抛出异常
+   */
+  abstract sendData(data: string | Uint8Array): Promise<LightweightSendResult>
+
+  /**
+   * 关闭连接
+   */
+  abstract close(reason?: string): void
+}
+
 /**
  * 轻量级服务器抽象基类
  * 提供运行时协议生成和简化的API定义方式
  */
-export abstract class LightweightServer<T extends LightweightServiceType = LightweightServiceType> {
+export abstract class LightweightServer<
+  T extends LightweightServiceType = LightweightServiceType,
+  C extends object = Record<string, any>,
+> {
   protected _status: LightweightServerStatus = LightweightServerStatus.Closed
   protected protocolGenerator: RuntimeProtocolGenerator<T>
-  protected apiHandlers = new Map<string, LightweightApiHandler>()
-  protected msgHandlers = new Map<string, LightweightMsgHandler[]>()
-  protected flows: LightweightFlows<T> = {}
-  protected connections = new Map<string, any>()
-
-  readonly options: LightweightProtocolOptions
-
-  constructor(options: LightweightProtocolOptions = {}) {
+  protected apiHandlers = new Map<string, LightweightApiHandler<any, any, C>>()
+  protected msgHandlers = new Map<string, LightweightMsgHandler<any, C>[]>()
+  /** 各流程的中间件链，可直接push/unshift/remove */
+  readonly flows: LightweightFlowChains<T, C> = {
+    onConnect: new LightweightFlow(),
+    onDisconnect: new LightweightFlow(),
+    preReceiveData: new LightweightFlow(),
+    preSendData: new LightweightFlow(),
+    preApiCall: new LightweightFlow(),
+    preApiReturn: new LightweightFlow(),
+    postApiCall: new LightweightFlow(),
+    preMsgReceive: new LightweightFlow(),
+    preMsgSend: new LightweightFlow(),
+  }
+  protected connections = new Map<string, LightweightConnection>()
+  /** 正在执行的API调用 */
+  protected pendingApiCalls = new Set<Promise<LightweightApiReturn>>()
+  /** 单独设置了超时时间的API */
+  protected apiTimeouts = new Map<string, number>()
+  /** 进程内调用计数，用于生成连接ID */
+  private localCallCount = 0
+  /** 限流器，设置了rateLimit选项时创建 */
+  readonly rateLimiter?: LightweightRateLimiter
+
+  readonly options: LightweightServerOptions
+
+  constructor(options: LightweightServerOptions = {}) {
     this.options = {
       enableValidation: true,
       debug: false,
@@ -62,6 +174,9 @@ export abstract class LightweightServer<T extends LightweightServiceType = Light
     }
 
     this.protocolGenerator = new RuntimeProtocolGenerator<T>(this.options)
+    if (this.options.rateLimit) {
+      this.rateLimiter = new LightweightRateLimiter(this.options.rateLimit)
+    }
   }
 
   /**
@@ -74,6 +189,40 @@ export abstract class LightweightServer<T extends LightweightServiceType = Light
    */
   abstract stop(): Promise<void>
 
+  /**
+   * 优雅停止服务器
+   * 先拒绝新的API调用（返回可重试的SERVER_CLOSING错误），等待正在执行的调用完成，
+   * 超时后强制关闭剩余连接
+   * @param timeoutMs 等待正在执行的调用的最长时间
+   */
+  async gracefulStop(timeoutMs: number = 30000): Promise<LightweightGracefulStopResult> {
+    if (this._status === LightweightServerStatus.Closed) {
+      return { completed: 0, cutOff: 0 }
+    }
+
+    this._status = LightweightServerStatus.Closing
+
+    const pending = Array.from(this.pendingApiCalls)
+    this.debug(`Graceful stop: waiting for ${pending.length} pending API calls`)
+
+    let timer: ReturnType<typeof setTimeout> | undefined
+    await Promise.race([
+      Promise.all(pending.map(v => v.catch(() => {}))),
+      new Promise<void>(resolve => {
+        timer = setTimeout(() => resolve(), timeoutMs)
+      }),
+    ])
+    clearTimeout(timer!)
+
+    const cutOff = pending.filter(v => this.pendingApiCalls.has(v)).length
+    if (cutOff) {
+      console.warn(`Graceful stop timeout, ${cutOff} API calls were cut off`)
+    }
+
+    await this.stop()
+    return { completed: pending.length - cutOff, cutOff }
+  }
+
   /**
    * 获取服务器状态
    */
@@ -85,35 +234,115 @@ export abstract class LightweightServer<T extends LightweightServiceType = Light
    * 实现API处理器
    * @param apiName API名称
    * @param handler 处理函数
+   * @param options 请求和响应的Schema，用于运行时校验
    */
   implementApi<K extends keyof T["api"]>(
     apiName: K,
-    handler: LightweightApiHandler<T["api"][K]["req"], T["api"][K]["res"]>
+    handler: LightweightApiHandler<T["api"][K]["req"], T["api"][K]["res"], C>,
+    options?: LightweightApiOptions<T["api"][K]["req"], T["api"][K]["res"]>
   ): void {
     const apiNameStr = String(apiName)
 
     // 注册到协议生成器
-    this.protocolGenerator.registerApi(apiName)
+    this.protocolGenerator.registerApi(apiName, options)
 
     // 保存处理器
     this.apiHandlers.set(apiNameStr, handler)
+    if (options?.timeout !== undefined) {
+      this.apiTimeouts.set(apiNameStr, options.timeout)
+    }
 
     this.debug(`注册API处理器: ${apiNameStr}`)
   }
 
+  /**
+   * 扫描目录自动实现API
+   * `user/ApiLogin.ts` 对应API `user/login` 或 `user/Login`，处理器为导出的 `ApiLogin` 或默认导出
+   *
+   * 协议中已声明API时（如通过schema选项）只实现已声明的API，并报告缺少处理器的API和没有对应API的文件；
+   * 未声明任何API时按文件名实现
+   * @param dir API目录
+   */
+  async autoImplementApi(dir: string): Promise<LightweightAutoImplementResult> {
+    const declared = this.protocolGenerator.getProtocol().apiNames.map(String)
+    const result: LightweightAutoImplementResult = {
+      succ: [],
+      missing: [],
+      unmatched: [],
+      fail: [],
+    }
+
+    // 相对路径按进程工作目录解析
+    const root = path.resolve(dir)
+    for (const file of await this.scanApiFiles(root)) {
+      const relative = path.relative(root, file).split(path.sep).join("/")
+      const [, prefix = "", name] = relative.match(/^(.*\/)?Api(\w+)\.[jt]s$/)!
+      const candidates = [`${prefix}${name[0].toLowerCase()}${name.slice(1)}`, `${prefix}${name}`]
+      const apiName = declared.length ? candidates.find(v => declared.includes(v)) : candidates[0]
+      if (!apiName) {
+        result.unmatched.push(relative)
+        continue
+      }
+
+      try {
+        const module = await import(file)
+        const handler = module[`Api${name}`] ?? module.default
+        if (typeof handler !== "function") {
+          throw new Error(`Missing export \`Api${name}\` or default export`)
+        }
+        this.implementApi(apiName as keyof T["api"], handler)
+        result.succ.push(apiName)
+      } catch (error: any) {
+        result.fail.push({ file: relative, error: error.message })
+      }
+    }
+
+    result.missing = declared.filter(v => !this.apiHandlers.has(v))
+
+    if (result.missing.length) {
+      console.warn(`API handlers not found: ${result.missing.join(", ")}`)
+    }
+    if (result.unmatched.length) {
+      console.warn(`API files match no declared API: ${result.unmatched.join(", ")}`)
+    }
+    for (const { file, error } of result.fail) {
+      console.error(`Failed to implement API from ${file}: ${error}`)
+    }
+
+    return result
+  }
+
+  /**
+   * 递归查找API文件（Api开头的.ts/.js文件，不含.d.ts）
+   */
+  private async scanApiFiles(dir: string): Promise<string[]> {
+    const files: string[] = []
+    for (const entry of await fs.promises.readdir(dir, { withFileTypes: true })) {
+      const fullPath = path.join(dir, entry.name)
+      if (entry.isDirectory()) {
+        files.push(...(await this.scanApiFiles(fullPath)))
+      } else if (/^Api\w+\.[jt]s$/.test(entry.name)) {
+        files.push(fullPath)
+      }
+    }
+    return files.sort()
+  }
+
   /**
    * 监听消息
    * @param msgName 消息名称
    * @param handler 处理函数
+   * @param options 消息Schema，用于运行时校验
    */
   listenMsg<K extends keyof T["msg"]>(
     msgName: K,
-    handler: LightweightMsgHandler<T["msg"][K]>
+    handler: LightweightMsgHandler<T["msg"][K], C>,
+    options?: LightweightMsgOptions<T["msg"][K]>
   ): void {
     const msgNameStr = String(msgName)
 
     // 注册到协议生成器
-    this.protocolGenerator.registerMsg(msgName)
+    this.protocolGenerator.registerMsg(msgName, options?.schema)
 
     // 保存处理器
     if (!this.msgHandlers.has(msgNameStr)) {
@@ -126,128 +355,201 @@ export abstract class LightweightServer<T extends LightweightServiceType = Light
 
   /**
    * 设置流程处理器
+   * 追加到对应中间件链的末尾，不会替换已有的中间件
    */
-  setFlows(flows: Partial<LightweightFlows<T>>): void {
-    this.flows = { ...this.flows, ...flows }
+  setFlows(flows: Partial<LightweightFlows<T, C>>): void {
+    for (const key of Object.keys(flows) as Array<keyof LightweightFlows<T, C>>) {
+      const middleware = flows[key]
+      if (middleware) {
+        ;(this.flows[key] as LightweightFlow<any, Partial<C>>).push(middleware)
+      }
+    }
+  }
+
+  /**
+   * 获取单个API的流程，中间件只在调用该API时执行，data中的req/res为该API的类型
+   *
+   * @example
+   * server.flowsFor("user/login").preApiCall(async (data, context, next) => {
+   *   if (data.req.password.length < 6) return
+   *   await next()
+   * })
+   */
+  flowsFor<K extends LightweightApiName<T>>(apiName: K): LightweightApiFlows<T, K, C> {
+    // 包装为只对该API生效的中间件，追加到全局中间件链
+    const only =
+      <D extends { apiName: string }>(
+        middleware: LightweightMiddleware<D, Partial<C>>
+      ): LightweightMiddleware<any, Partial<C>> =>
+      (data, context, next) =>
+        data.apiName === apiName ? middleware(data, context, next) : next()
+
+    const flows: LightweightApiFlows<T, K, C> = {
+      preApiCall: middleware => {
+        this.flows.preApiCall.push(only(middleware))
+        return flows
+      },
+      preApiReturn: middleware => {
+        this.flows.preApiReturn.push(only(middleware))
+        return flows
+      },
+      postApiCall: middleware => {
+        this.flows.postApiCall.push(only(middleware))
+        return flows
+      },
+    }
+    return flows
   }
 
   /**
    * 处理API调用
+   * 服务器停止中时拒绝新的调用，其余调用在完成前记录在pendingApiCalls中
    */
   async handleApiCall<K extends keyof T["api"]>(
     apiName: K,
     req: T["api"][K]["req"],
-    context: LightweightCallContext
+    context: LightweightCallContext<C>
+  ): Promise<LightweightApiReturn<T["api"][K]["res"]>> {
+    if (this._status === LightweightServerStatus.Closing) {
+      return {
+        isSucc: false,
+        err: {
+          message: "Server is closing, please retry later",
+          code: "SERVER_CLOSING",
+          type: "ServerError",
+          retryable: true,
+        },
+      }
+    }
+
+    const limit = await this.rateLimiter?.acquire(String(apiName), context)
+    if (limit && !limit.isSucc) {
+      context.logger.warn(`API ${String(apiName)} rate limited for ${context.clientIp}`)
+      return { isSucc: false, err: limit.err }
+    }
+
+    // 超时后处理器仍在执行，并发名额在处理器结束后才释放
+    const promise = this.runApiCall(apiName, req, context, () => {
+      limit?.release().catch(error => {
+        context.logger.error(`Rate limit release error for ${String(apiName)}:`, error)
+      })
+    })
+    this.pendingApiCalls.add(promise)
+    try {
+      return await promise
+    } finally {
+      this.pendingApiCalls.delete(promise)
+    }
+  }
+
+  /**
+   * 执行API调用并处理超时
+   * 处理器收到的context.signal在超时或连接断开时触发
+   * @param onSettled 处理器执行结束后调用，超时不影响调用时机
+   */
+  private async runApiCall<K extends keyof T["api"]>(
+    apiName: K,
+    req: T["api"][K]["req"],
+    context: LightweightCallContext<C>,
+    onSettled?: () => void
+  ): Promise<LightweightApiReturn<T["api"][K]["res"]>> {
+    const apiNameStr = String(apiName)
+    const timeout = this.apiTimeouts.get(apiNameStr) ?? this.options.apiTimeout
+
+    // 连接断开时同步取消本次调用
+    const controller = new AbortController()
+    const parentSignal = context.signal
+    const onParentAbort = () => controller.abort()
+    if (parentSignal?.aborted) {
+      controller.abort()
+    } else {
+      parentSignal?.addEventListener("abort", onParentAbort)
+    }
+
+    const callContext: LightweightCallContext<C> = { ...context, signal: controller.signal }
+    const promise = this.processApiCall(apiName, req, callContext)
+    if (onSettled) {
+      promise.then(onSettled, onSettled)
+    }
+
+    if (!timeout) {
+      try {
+        return await promise
+      } finally {
+        parentSignal?.removeEventListener("abort", onParentAbort)
+      }
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const timeoutPromise = new Promise<LightweightApiReturn<T["api"][K]["res"]>>(resolve => {
+      timer = setTimeout(() => {
+        context.logger.warn(`API ${apiNameStr} timeout after ${timeout}ms`)
+        controller.abort()
+        resolve({
+          isSucc: false,
+          err: {
+            message: `API ${apiNameStr} timeout after ${timeout}ms`,
+            code: "TIMEOUT",
+            type: "ServerError",
+          },
+        })
+      }, timeout)
+    })
+
+    try {
+      return await Promise.race([promise, timeoutPromise])
+    } finally {
+      clearTimeout(timer!)
+      parentSignal?.removeEventListener("abort", onParentAbort)
+    }
+  }
+
+  /**
+   * 校验请求并执行中间件链和处理器
+   */
+  private async processApiCall<K extends keyof T["api"]>(
+    apiName: K,
+    req: T["api"][K]["req"],
+    context: LightweightCallContext<C>
   ): Promise<LightweightApiReturn<T["api"][K]["res"]>> {
     const apiNameStr = String(apiName)
 
     try {
       // 验证请求数据
-      if (!this.protocolGenerator.validateRequest(apiName, req)) {
+      const reqIssues = this.protocolGenerator.checkRequest(apiName, req)
+      if (reqIssues.length) {
         return {
           isSucc: false,
           err: {
             message: `Invalid request data for API: ${apiNameStr}`,
             code: "INVALID_REQUEST",
             type: "ClientError",
+            issues: reqIssues,
           },
         }
       }
 
-      // 前置流程
-      if (this.flows.preApiCall) {
-        let shouldContinue = false
-        await this.flows.preApiCall(
-          { apiName: apiNameStr, req, connId: context.connId },
-          context,
-          async () => {
-            shouldContinue = true
-          }
-        )
-        if (!shouldContinue) {
-          return {
-            isSucc: false,
-            err: {
-              message: "API call canceled by preApiCall flow",
-              code: "FLOW_CANCELED",
-              type: "ServerError",
-            },
-          }
-        }
-      }
-
-      // 获取处理器
-      const handler = this.apiHandlers.get(apiNameStr)
-      if (!handler) {
-        return {
-          isSucc: false,
-          err: {
-            message: `No handler found for API: ${apiNameStr}`,
-            code: "HANDLER_NOT_FOUND",
-            type: "ServerError",
-          },
+      // 前置流程，处理器在中间件链的最内层执行
+      let ret: LightweightApiReturn<T["api"][K]["res"]> | undefined
+      const completed = await this.flows.preApiCall.exec(
+        { apiName: apiNameStr, req, connId: context.connId } as LightweightPreApiCallData<T>,
+        context,
+        async () => {
+          ret = await this.executeApi(apiName, req, context)
         }
-      }
-
-      // 执行处理器
-      context.logger.log(`[API] ${apiNameStr}`, this.options.debug ? req : "")
-      const startTime = Date.now()
-      const result = await handler(req, context)
-      const duration = Date.now() - startTime
-
-      // 验证响应数据
-      if (!this.protocolGenerator.validateResponse(apiName, result)) {
+      )
+      if (!completed) {
         return {
           isSucc: false,
           err: {
-            message: `Invalid response data for API: ${apiNameStr}`,
-            code: "INVALID_RESPONSE",
+            message: "API call canceled by preApiCall flow",
+            code: "FLOW_CANCELED",
             type: "ServerError",
           },
         }
       }
 
-      // 前置返回流程
-      if (this.flows.preApiReturn) {
-        let shouldContinue = false
-        await this.flows.preApiReturn(
-          { apiName: apiNameStr, res: result, connId: context.connId },
-          context,
-          async () => {
-            shouldContinue = true
-          }
-        )
-        if (!shouldContinue) {
-          return {
-            isSucc: false,
-            err: {
-              message: "API return canceled by preApiReturn flow",
-              code: "FLOW_CANCELED",
-              type: "ServerError",
-            },
-          }
-        }
-      }
-
-      context.logger.log(`[API] ${apiNameStr} completed in ${duration}ms`)
-
-      // 后置流程
-      if (this.flows.postApiCall) {
-        Promise.resolve(
-          this.flows.postApiCall(
-            { apiName: apiNameStr, req, res: result, connId: context.connId },
-            context,
-            async () => {}
-          )
-        ).catch((err: any) => {
-          context.logger.error("postApiCall flow error:", err)
-        })
-      }
-
-      return {
-        isSucc: true,
-        res: result,
-      }
+      return ret!
     } catch (error: any) {
       context.logger.error(`API ${apiNameStr} error:`, error)
 
@@ -258,6 +560,7 @@ export abstract class LightweightServer<T extends LightweightServiceType = Light
             message: error.message,
             code: error.code,
             type: error.type,
+            ...(error instanceof LightweightValidationError && { issues: error.issues }),
           },
         }
       }
@@ -273,60 +576,176 @@ export abstract class LightweightServer<T extends LightweightServiceType = Light
     }
   }
 
+  /**
+   * 执行API处理器，校验响应并执行返回相关的流程
+   */
+  private async executeApi<K extends keyof T["api"]>(
+    apiName: K,
+    req: T["api"][K]["req"],
+    context: LightweightCallContext<C>
+  ): Promise<LightweightApiReturn<T["api"][K]["res"]>> {
+    const apiNameStr = String(apiName)
+
+    // 获取处理器
+    const handler = this.apiHandlers.get(apiNameStr)
+    if (!handler) {
+      return {
+        isSucc: false,
+        err: {
+          message: `No handler found for API: ${apiNameStr}`,
+          code: "HANDLER_NOT_FOUND",
+          type: "ServerError",
+        },
+      }
+    }
+
+    // 执行处理器
+    context.logger.log(`[API] ${apiNameStr}`, this.options.debug ? req : "")
+    const startTime = Date.now()
+    const result = await handler(req, context)
+    const duration = Date.now() - startTime
+
+    // 验证响应数据（问题只记录日志，不返回给客户端）
+    const resIssues = this.protocolGenerator.checkResponse(apiName, result)
+    if (resIssues.length) {
+      context.logger.error(`Invalid response data for API: ${apiNameStr}`, resIssues)
+      return {
+        isSucc: false,
+        err: {
+          message: `Invalid response data for API: ${apiNameStr}`,
+          code: "INVALID_RESPONSE",
+          type: "ServerError",
+        },
+      }
+    }
+
+    // 前置返回流程
+    const completed = await this.flows.preApiReturn.exec(
+      {
+        apiName: apiNameStr,
+        res: result,
+        connId: context.connId,
+      } as LightweightPreApiReturnData<T>,
+      context
+    )
+    if (!completed) {
+      return {
+        isSucc: false,
+        err: {
+          message: "API return canceled by preApiReturn flow",
+          code: "FLOW_CANCELED",
+          type: "ServerError",
+        },
+      }
+    }
+
+    context.logger.log(`[API] ${apiNameStr} completed in ${duration}ms`)
+
+    // 后置流程
+    this.flows.postApiCall
+      .exec(
+        {
+          apiName: apiNameStr,
+          req,
+          res: result,
+          connId: context.connId,
+        } as LightweightPostApiCallData<T>,
+        context
+      )
+      .catch((err: any) => {
+        context.logger.error("postApiCall flow error:", err)
+      })
+
+    return {
+      isSucc: true,
+      res: result,
+    }
+  }
+
   /**
    * 处理消息调用
    */
   async handleMsgCall<K extends keyof T["msg"]>(
     msgName: K,
     msg: T["msg"][K],
-    context: LightweightCallContext
+    context: LightweightCallContext<C>
   ): Promise<void> {
     const msgNameStr = String(msgName)
 
     try {
       // 验证消息数据
-      if (!this.protocolGenerator.validateMessage(msgName, msg)) {
-        context.logger.error(`Invalid message data for: ${msgNameStr}`, msg)
+      const issues = this.protocolGenerator.checkMessage(msgName, msg)
+      if (issues.length) {
+        context.logger.error(`Invalid message data for: ${msgNameStr}`, issues)
         return
       }
 
-      // 前置流程
-      if (this.flows.preMsgReceive) {
-        let shouldContinue = false
-        await this.flows.preMsgReceive(
-          { msgName: msgNameStr, msg, connId: context.connId },
-          context,
-          async () => {
-            shouldContinue = true
+      // 前置流程，处理器在中间件链的最内层执行
+      const completed = await this.flows.preMsgReceive.exec(
+        {
+          msgName: msgNameStr,
+          msg,
+          connId: context.connId,
+        } as unknown as LightweightMsgFlowData<T>,
+        context,
+        async () => {
+          // 获取处理器
+          const handlers = this.msgHandlers.get(msgNameStr)
+          if (!handlers || handlers.length === 0) {
+            context.logger.warn(`No handler found for message: ${msgNameStr}`)
+            return
           }
-        )
-        if (!shouldContinue) {
-          context.logger.debug("Message call canceled by preMsgReceive flow")
-          return
-        }
-      }
-
-      // 获取处理器
-      const handlers = this.msgHandlers.get(msgNameStr)
-      if (!handlers || handlers.length === 0) {
-        context.logger.warn(`No handler found for message: ${msgNameStr}`)
-        return
-      }
 
-      // 执行所有处理器（并行）
-      context.logger.log(`[MSG] ${msgNameStr}`, this.options.debug ? msg : "")
-      await Promise.all(
-        handlers.map(handler =>
-          Promise.resolve(handler(msg, context)).catch(err => {
-            context.logger.error(`Message handler error for ${msgNameStr}:`, err)
-          })
-        )
+          // 执行所有处理器（并行）
+          context.logger.log(`[MSG] ${msgNameStr}`, this.options.debug ? msg : "")
+          await Promise.all(
+            handlers.map(handler =>
+              Promise.resolve(handler(msg, context)).catch(err => {
+                context.logger.error(`Message handler error for ${msgNameStr}:`, err)
+              })
+            )
+          )
+        }
       )
+      if (!completed) {
+        context.logger.debug("Message call canceled by preMsgReceive flow")
+      }
     } catch (error: any) {
       context.logger.error(`Message ${msgNameStr} error:`, error)
     }
   }
 
+  /**
+   * 在进程内调用API，不经过网络
+   * 与网络请求一样执行流程、校验和日志，服务器无需启动，适用于单元测试
+   */
+  callApiLocal<K extends keyof T["api"]>(
+    apiName: K,
+    req: T["api"][K]["req"],
+    options: LightweightLocalCallOptions = {}
+  ): Promise<LightweightApiReturn<T["api"][K]["res"]>> {
+    return this.handleApiCall(apiName, req, this.createLocalCallContext(options))
+  }
+
+  /**
+   * 在进程内发送消息给服务器，不经过网络
+   */
+  sendMsgLocal<K extends keyof T["msg"]>(
+    msgName: K,
+    msg: T["msg"][K],
+    options: LightweightLocalCallOptions = {}
+  ): Promise<void> {
+    return this.handleMsgCall(msgName, msg, this.createLocalCallContext(options))
+  }
+
+  private createLocalCallContext(options: LightweightLocalCallOptions): LightweightCallContext<C> {
+    const context = this.createCallContext(
+      options.connId ?? `local_${++this.localCallCount}`,
+      options.clientIp ?? "127.0.0.1"
+    )
+    return options.extra ? { ...context, extra: options.extra } : context
+  }
+
   /**
    * 发送消息到指定连接
    */
@@ -344,37 +763,54 @@ export abstract class LightweightServer<T extends LightweightServiceType = Light
 
     try {
       // 验证消息数据
-      if (!this.protocolGenerator.validateMessage(msgName, msg)) {
-        return { isSucc: false, errMsg: `Invalid message data for: ${msgNameStr}` }
-      }
-
-      // 前置发送流程
-      if (this.flows.preMsgSend) {
-        const context = this.createCallContext(connId, connection.ip || "unknown")
-        let shouldContinue = false
-        await this.flows.preMsgSend({ msgName: msgNameStr, msg, connId }, context, async () => {
-          shouldContinue = true
-        })
-        if (!shouldContinue) {
-          return { isSucc: false, errMsg: "Message send canceled by preMsgSend flow" }
+      const issues = this.protocolGenerator.checkMessage(msgName, msg)
+      if (issues.length) {
+        return {
+          isSucc: false,
+          errMsg: `Invalid message data for: ${msgNameStr} (${issues
+            .map(v => `${v.path}: expected ${v.expected}`)
+            .join("; ")})`,
         }
       }
 
-      // 序列化并发送
-      const serializedData = this.protocolGenerator.serialize({
-        type: "msg",
-        serviceName: msgNameStr,
-        serviceId: this.protocolGenerator.getServiceId(msgNameStr, "msg"),
-        data: msg,
-      })
+      // 前置发送流程，实际发送在中间件链的最内层执行
+      const context = this.createCallContext(connId, connection.ip)
+      let result: { isSucc: boolean; errMsg?: string } = { isSucc: true }
+      const completed = await this.flows.preMsgSend.exec(
+        { msgName: msgNameStr, msg, connId } as unknown as LightweightMsgFlowData<T>,
+        context,
+        async () => {
+          // 序列化并发送，未注册服务ID的消息不带serviceId字段
+          const serviceId = this.protocolGenerator.getServiceId(msgNameStr, "msg")
+          const serializedData = this.protocolGenerator.serialize(
+            {
+              type: "msg",
+              serviceName: msgNameStr,
+              ...(serviceId !== undefined && { serviceId }),
+              data: msg,
+            },
+            connection.serializationMode
+          )
+
+          const payload = await this.runPreSendData(serializedData, context)
+          if (payload === undefined) {
+            result = { isSucc: false, errMsg: "Message send canceled by preSendData flow" }
+            return
+          }
 
-      // 这里需要由具体实现来处理发送
-      // const result = await connection.sendData(serializedData)
-      // if (!result.isSucc) {
-      //   return { isSucc: false, errMsg: result.errMsg }
-      // }
+          // 由具体连接负责实际发送
+          const sendResult = await connection.sendData(payload)
+          if (!sendResult.isSucc) {
+            this.debug(`Send message ${msgNameStr} to ${connId} failed: ${sendResult.errMsg}`)
+            result = { isSucc: false, errMsg: sendResult.errMsg }
+          }
+        }
+      )
+      if (!completed) {
+        return { isSucc: false, errMsg: "Message send canceled by preMsgSend flow" }
+      }
 
-      return { isSucc: true }
+      return result
     } catch (error: any) {
       return { isSucc: false, errMsg: error.message || "Send message failed" }
     }
@@ -446,15 +882,45 @@ export abstract class LightweightServer<T extends LightweightServiceType = Light
     }
   }
 
+  /**
+   * 执行preReceiveData流程
+   * 中间件可以通过改写 `data.data` 替换收到的原始数据，流程被取消时返回undefined
+   */
+  protected async runPreReceiveData(
+    data: string | Uint8Array,
+    context: LightweightCallContext<C>
+  ): Promise<string | Uint8Array | undefined> {
+    const flowData = { data, connId: context.connId }
+    const completed = await this.flows.preReceiveData.exec(flowData, context)
+    return completed ? flowData.data : undefined
+  }
+
+  /**
+   * 执行preSendData流程
+   * 中间件可以通过改写 `data.data` 替换即将发送的已序列化数据，流程被取消时返回undefined
+   */
+  protected async runPreSendData(
+    data: string | Uint8Array,
+    context: LightweightCallContext<C>
+  ): Promise<string | Uint8Array | undefined> {
+    const flowData = { data, connId: context.connId }
+    const completed = await this.flows.preSendData.exec(flowData, context)
+    return completed ? flowData.data : undefined
+  }
+
   /**
    * 处理连接建立
    */
-  protected async onConnect(connId: string, clientIp: string, connection: any): Promise<void> {
+  protected async onConnect(
+    connId: string,
+    clientIp: string,
+    connection: LightweightConnection
+  ): Promise<void> {
     this.connections.set(connId, connection)
 
-    if (this.flows.onConnect) {
+    if (this.flows.onConnect.length) {
       const context = this.createCallContext(connId, clientIp)
-      await this.flows.onConnect({ connId, clientIp }, context, async () => {})
+      await this.flows.onConnect.exec({ connId, clientIp }, context)
     }
 
     this.debug(`Connection established: ${connId} from ${clientIp}`)
@@ -470,10 +936,11 @@ export abstract class LightweightServer<T extends LightweightServiceType = Light
     }
 
     this.connections.delete(connId)
+    connection.abort()
 
-    if (this.flows.onDisconnect) {
-      const context = this.createCallContext(connId, connection.ip || "unknown")
-      await this.flows.onDisconnect({ connId, reason }, context, async () => {})
+    if (this.flows.onDisconnect.length) {
+      const context = this.createCallContext(connId, connection.ip)
+      await this.flows.onDisconnect.exec({ connId, reason }, context)
     }
 
     this.debug(`Connection closed: ${connId}${reason ? ` (${reason})` : ""}`)
@@ -482,11 +949,13 @@ export abstract class LightweightServer<T extends LightweightServiceType = Light
   /**
    * 创建调用上下文
    */
-  protected createCallContext(connId: string, clientIp: string): LightweightCallContext {
+  protected createCallContext(connId: string, clientIp: string): LightweightCallContext<C> {
     return {
       connId,
       clientIp,
       startTime: Date.now(),
+      signal: this.connections.get(connId)?.signal,
+      state: {} as C,
       logger: {
         log: (...args) => console.log(`[${connId}]`, ...args),
         warn: (...args) => console.warn(`[${connId}]`, ...args),
@@ -503,6 +972,47 @@ export abstract class LightweightServer<T extends LightweightServiceType = Light
     return this.protocolGenerator.getProtocol()
   }
 
+  /**
+   * 获取TSRPC ServiceProto，可直接传给tsrpc-base-client的客户端
+   */
+  getServiceProto() {
+    return this.protocolGenerator.generateCompatibleProtocol()
+  }
+
+  /**
+   * 获取协议锁，用于固定服务ID
+   */
+  getProtocolLock() {
+    return this.protocolGenerator.getProtocolLock()
+  }
+
+  /**
+   * 获取协议指纹，客户端可在请求中携带以检查协议是否一致
+   */
+  getProtocolFingerprint(): string {
+    return this.protocolGenerator.getProtocolFingerprint()
+  }
+
+  /**
+   * 校验客户端携带的协议指纹，未携带时不校验
+   * 不一致时返回PROTOCOL_MISMATCH错误
+   */
+  protected checkProtocolFingerprint(
+    fingerprint: string | undefined
+  ): LightweightApiError | undefined {
+    const serverFingerprint = this.getProtocolFingerprint()
+    if (!fingerprint || fingerprint === serverFingerprint) {
+      return undefined
+    }
+
+    return {
+      message: "Protocol mismatch, please upgrade the client",
+      code: "PROTOCOL_MISMATCH",
+      type: "ClientError",
+      protocol: { server: serverFingerprint, client: fingerprint },
+    }
+  }
+
   /**
    * 获取协议统计
    */
@@ -525,13 +1035,14 @@ export abstract class LightweightServer<T extends LightweightServiceType = Light
   getConnections(): Array<{ id: string; ip: string; status?: string }> {
     return Array.from(this.connections.entries()).map(([id, conn]) => ({
       id,
-      ip: conn.ip || "unknown",
-      status: conn.status || "unknown",
+      ip: conn.ip,
+      status: conn.status,
     }))
   }
 
   /**
    * 关闭指定连接
+   * WebSocket等连接的关闭事件是异步的，这里直接执行onDisconnect，之后的关闭事件不会重复执行
    */
   closeConnection(connId: string, reason?: string): boolean {
     const connection = this.connections.get(connId)
@@ -539,10 +1050,10 @@ export abstract class LightweightServer<T extends LightweightServiceType = Light
       return false
     }
 
-    if (typeof connection.close === "function") {
-      connection.close(reason)
-    }
-    this.connections.delete(connId)
+    connection.close(reason)
+    this.onDisconnect(connId, reason).catch(error => {
+      console.error(`Disconnect error for ${connId}:`, error)
+    })
     return true
   }
 }
@@ -0,0 +1,262 @@
+import { TSBuffer } from "tsbuffer"
+import { ServiceProto, TransportDataProto } from "tsrpc-proto"
+import {
+  LightweightSchema,
+  LightweightStringSchema,
+  LightweightNumberSchema,
+  LightweightLiteralSchema,
+  LightweightOptionalSchema,
+  LightweightArraySchema,
+  LightweightObjectSchema,
+  LightweightUnionSchema,
+} from "./LightweightSchema"
+import {
+  LightweightApiError,
+  LightweightApiReturn,
+  LightweightServiceType,
+} from "./LightweightTypes"
+import { RuntimeProtocolGenerator } from "./RuntimeProtocolGenerator"
+
+/**
+ * TSBuffer Schema（tsbuffer-schema仅为间接依赖，这里从ServiceProto取类型）
+ */
+export type LightweightTSBufferSchema = ServiceProto["types"][string]
+
+/**
+ * TSRPC错误类型，ServerOutputData中只允许这几种
+ */
+const TSRPC_ERROR_TYPES = ["NetworkError", "ServerError", "ClientError", "ApiError"]
+
+/**
+ * 把Schema转换为TSBuffer Schema
+ * 未声明Schema的部分为Any，可选Schema在Interface中对应可选属性
+ */
+export function schemaToTSBufferSchema(schema: LightweightSchema): LightweightTSBufferSchema {
+  if (schema instanceof LightweightStringSchema) {
+    return { type: "String" }
+  }
+
+  if (schema instanceof LightweightNumberSchema) {
+    return schema.options.integer ? { type: "Number", scalarType: "int" } : { type: "Number" }
+  }
+
+  if (schema instanceof LightweightLiteralSchema) {
+    return { type: "Literal", literal: schema.literal }
+  }
+
+  if (schema instanceof LightweightOptionalSchema) {
+    // 不在Interface属性中的可选值，用联合undefined表示
+    return {
+      type: "Union",
+      members: [
+        { id: 0, type: schemaToTSBufferSchema(schema.inner) },
+        { id: 1, type: { type: "Literal", literal: undefined } },
+      ],
+    }
+  }
+
+  if (schema instanceof LightweightArraySchema) {
+    return { type: "Array", elementType: schemaToTSBufferSchema(schema.element) }
+  }
+
+  if (schema instanceof LightweightObjectSchema) {
+    return {
+      type: "Interface",
+      properties: Object.entries(schema.shape as Record<string, LightweightSchema>).map(
+        ([name, value], id) =>
+          value instanceof LightweightOptionalSchema
+            ? { id, name, type: schemaToTSBufferSchema(value.inner), optional: true }
+            : { id, name, type: schemaToTSBufferSchema(value) }
+      ),
+    }
+  }
+
+  if (schema instanceof LightweightUnionSchema) {
+    return {
+      type: "Union",
+      members: (schema.members as readonly LightweightSchema[]).map((v, id) => ({
+        id,
+        type: schemaToTSBufferSchema(v),
+      })),
+    }
+  }
+
+  switch (schema.kind) {
+    case "boolean":
+      return { type: "Boolean" }
+    case "date":
+      return { type: "Date" }
+    case "buffer":
+      return { type: "Buffer", arrayType: "Uint8Array" }
+    default:
+      return { type: "Any" }
+  }
+}
+
+/**
+ * 获取服务对应的TSRPC类型ID，与tsrpc-base-client的ServiceMapUtil规则一致
+ * 例如 `user/Login` 的请求类型为 `user/PtlLogin/ReqLogin`
+ */
+export function getTsrpcSchemaIds(
+  serviceName: string,
+  type: "api" | "msg"
+): { req: string; res: string } | { msg: string } {
+  const match = serviceName.match(/(.+\/)?([^/]+)$/)!
+  const path = match[1] || ""
+  const name = match[2]
+
+  return type === "api"
+    ? { req: `${path}Ptl${name}/Req${name}`, res: `${path}Ptl${name}/Res${name}` }
+    : { msg: `${path}Msg${name}/Msg${name}` }
+}
+
+/**
+ * 根据运行时协议生成TSRPC ServiceProto
+ * 服务名称和ID与轻量级服务器一致，tsrpc-base-client的客户端可直接使用
+ */
+export function generateServiceProto<T extends LightweightServiceType>(
+  generator: RuntimeProtocolGenerator<T>
+): ServiceProto<any> {
+  const protocol = generator.getProtocol()
+  const services: ServiceProto["services"] = []
+  const types: ServiceProto["types"] = {}
+
+  for (const apiName of protocol.apiNames) {
+    const name = String(apiName)
+    const schemaIds = getTsrpcSchemaIds(name, "api") as { req: string; res: string }
+    const apiSchemas = protocol.schemas?.api[apiName]
+
+    services.push({ id: generator.getServiceId(name, "api")!, name, type: "api" })
+    types[schemaIds.req] = apiSchemas?.req
+      ? schemaToTSBufferSchema(apiSchemas.req)
+      : { type: "Any" }
+    types[schemaIds.res] = apiSchemas?.res
+      ? schemaToTSBufferSchema(apiSchemas.res)
+      : { type: "Any" }
+  }
+
+  for (const msgName of protocol.msgNames) {
+    const name = String(msgName)
+    const schemaIds = getTsrpcSchemaIds(name, "msg") as { msg: string }
+    const msgSchema = protocol.schemas?.msg[msgName]
+
+    services.push({ id: generator.getServiceId(name, "msg")!, name, type: "msg" })
+    types[schemaIds.msg] = msgSchema ? schemaToTSBufferSchema(msgSchema) : { type: "Any" }
+  }
+
+  return { services, types }
+}
+
+/**
+ * TSRPC二进制传输编解码
+ * 处理tsrpc-base-client以buffer模式发送的ServerInputData和返回的ServerOutputData
+ */
+export class LightweightTsrpcCodec<T extends LightweightServiceType = LightweightServiceType> {
+  private readonly transport = new TSBuffer(TransportDataProto)
+  private proto?: ServiceProto<any>
+  private tsbuffer?: TSBuffer
+
+  constructor(private readonly generator: RuntimeProtocolGenerator<T>) {}
+
+  /**
+   * 解码ServerInputData，返回服务名称和解码后的数据
+   */
+  decodeInput(
+    data: Uint8Array
+  ):
+    | { isSucc: true; type: "api" | "msg"; serviceName: string; data: any; sn?: number }
+    | { isSucc: false; errMsg: string } {
+    const opInput = this.transport.decode<{ serviceId: number; buffer: Uint8Array; sn?: number }>(
+      data,
+      "ServerInputData"
+    )
+    if (!opInput.isSucc) {
+      return { isSucc: false, errMsg: opInput.errMsg }
+    }
+
+    const { serviceId, buffer, sn } = opInput.value
+    const tsbuffer = this.getTSBuffer()
+    const apiName = this.generator.getServiceName(serviceId, "api")
+    const msgName =
+      apiName === undefined ? this.generator.getServiceName(serviceId, "msg") : undefined
+    const serviceName = apiName ?? msgName
+    if (serviceName === undefined) {
+      return { isSucc: false, errMsg: `Invalid service ID: ${serviceId}` }
+    }
+
+    const type = apiName !== undefined ? "api" : "msg"
+    const schemaIds = getTsrpcSchemaIds(serviceName, type)
+    // 数据校验交给服务器按Schema进行，以返回完整的问题列表
+    const opData = tsbuffer.decode(buffer, "req" in schemaIds ? schemaIds.req : schemaIds.msg, {
+      skipValidate: true,
+    })
+    if (!opData.isSucc) {
+      return { isSucc: false, errMsg: opData.errMsg }
+    }
+
+    return { isSucc: true, type, serviceName, data: opData.value, sn }
+  }
+
+  /**
+   * 把API返回编码为ServerOutputData
+   */
+  encodeApiReturn(serviceName: string, ret: LightweightApiReturn<any>, sn?: number): Uint8Array {
+    const serviceId = this.generator.getServiceId(serviceName, "api")
+
+    if (ret.isSucc) {
+      const { res } = getTsrpcSchemaIds(serviceName, "api") as { res: string }
+      const opRes = this.getTSBuffer().encode(ret.res, res)
+      if (opRes.isSucc) {
+        return this.encodeOutput({ serviceId, buffer: opRes.buf, sn })
+      }
+      return this.encodeError(
+        { message: opRes.errMsg, type: "ServerError", code: "OUTPUT_DATA_ERR" },
+        serviceId,
+        sn
+      )
+    }
+
+    return this.encodeError(ret.err, serviceId, sn)
+  }
+
+  /**
+   * 把错误编码为ServerOutputData
+   */
+  encodeError(err: LightweightApiError, serviceId?: number, sn?: number): Uint8Array {
+    return this.encodeOutput({
+      serviceId,
+      sn,
+      error: {
+        ...err,
+        type: err.type && TSRPC_ERROR_TYPES.includes(err.type) ? err.type : "ApiError",
+      },
+    })
+  }
+
+  /**
+   * 编码输入解析失败时的错误返回
+   */
+  encodeInputError(errMsg: string): Uint8Array {
+    return this.encodeError({ message: errMsg, type: "ServerError", code: "INPUT_DATA_ERR" })
+  }
+
+  private encodeOutput(output: Record<string, any>): Uint8Array {
+    const op = this.transport.encode(output, "ServerOutputData")
+    if (!op.isSucc) {
+      throw new Error(`Encode ServerOutputData failed: ${op.errMsg}`)
+    }
+    return op.buf
+  }
+
+  /**
+   * 协议变化后重新创建TSBuffer
+   */
+  private getTSBuffer(): TSBuffer {
+    const proto = this.generator.generateCompatibleProtocol()
+    if (!this.tsbuffer || proto !== this.proto) {
+      this.proto = proto
+      this.tsbuffer = new TSBuffer(proto.types)
+    }
+    return this.tsbuffer
+  }
+}
@@ -1,4 +1,7 @@
 // 移除对外部依赖的导入，避免循环依赖
+import { LightweightSchema, LightweightServiceSchema } from "./LightweightSchema"
+import { LightweightFlow } from "./LightweightFlow"
+import { LightweightRateLimitOptions } from "./LightweightRateLimit"
 
 /**
  * 轻量级API定义接口
@@ -40,12 +43,24 @@ export interface RuntimeProtocol<T extends LightweightServiceType = LightweightS
   validators?: {
     api: {
       [K in keyof T["api"]]?: {
-        req?: (data: any) => data is T["api"][K]["req"]
-        res?: (data: any) => data is T["api"][K]["res"]
+        req?: LightweightValidateFunction
+        res?: LightweightValidateFunction
       }
     }
     msg: {
-      [K in keyof T["msg"]]?: (data: any) => data is T["msg"][K]
+      [K in keyof T["msg"]]?: LightweightValidateFunction
+    }
+  }
+  /** 注册的Schema，用于协议导出 */
+  schemas?: {
+    api: {
+      [K in keyof T["api"]]?: {
+        req?: LightweightSchema<T["api"][K]["req"]>
+        res?: LightweightSchema<T["api"][K]["res"]>
+      }
+    }
+    msg: {
+      [K in keyof T["msg"]]?: LightweightSchema<T["msg"][K]>
     }
   }
 }
@@ -66,6 +81,25 @@ export interface LightweightServiceMap {
   nextId: number
 }
 
+/**
+ * 协议锁文件内容，固定每个服务的ID
+ */
+export interface LightweightProtocolLock {
+  version: 1
+  services: Array<{ id: number; name: string; type: "api" | "msg" }>
+}
+
+/**
+ * 服务ID分配策略
+ * - sequential：按注册顺序递增（默认），只有注册顺序完全一致时ID才一致
+ * - hash：由服务类型和名称计算，与注册顺序无关
+ * - pinned：从协议锁文件读取，lock可以是锁文件路径或其内容；未在锁文件中的服务按fallback分配，未设置fallback时注册报错
+ */
+export type LightweightIdStrategy =
+  | "sequential"
+  | "hash"
+  | { type: "pinned"; lock: LightweightProtocolLock | string; fallback?: "sequential" | "hash" }
+
 /**
  * 轻量级协议选项
  */
@@ -76,15 +110,72 @@ export interface LightweightProtocolOptions {
   debug?: boolean
   /** 序列化模式 */
   serializationMode?: "json" | "binary" | "auto"
+  /** 服务ID分配策略，默认sequential */
+  idStrategy?: LightweightIdStrategy
+  /** 服务Schema，启动时注册其中声明的所有API和消息并启用对应的校验 */
+  schema?: LightweightServiceSchema
   /** 自定义验证器 */
   customValidators?: {
     [serviceName: string]: {
-      req?: (data: any) => boolean
-      res?: (data: any) => boolean
+      req?: LightweightValidateFunction
+      res?: LightweightValidateFunction
     }
   }
 }
 
+/**
+ * 轻量级服务器通用选项
+ */
+export interface LightweightServerOptions extends LightweightProtocolOptions {
+  /** API超时时间（毫秒），超时后返回TIMEOUT错误，为0或不设置时不超时 */
+  apiTimeout?: number
+  /** 限流配置，超出限制时返回RATE_LIMITED错误 */
+  rateLimit?: LightweightRateLimitOptions
+  /**
+   * 是否信任X-Forwarded-For、X-Real-IP请求头，默认false即使用对端地址作为客户端IP
+   * 只应在服务器位于反向代理之后时开启，否则客户端可以伪造IP绕过限流
+   */
+  trustProxy?: boolean
+}
+
+/**
+ * 校验问题
+ */
+export interface LightweightValidationIssue {
+  /** 出问题的位置，JSONPath格式，如 `$.user.tags[0]` */
+  path: string
+  /** 期望的类型描述 */
+  expected: string
+  /** 实际收到的值 */
+  received: any
+}
+
+/**
+ * 验证函数
+ * 返回true/false表示是否通过，也可以返回问题列表（空数组表示通过）以便客户端定位具体字段
+ */
+export type LightweightValidateFunction = (data: any) => boolean | LightweightValidationIssue[]
+
+/**
+ * 实现API时的选项
+ */
+export interface LightweightApiOptions<TReq = any, TRes = any> {
+  /** 请求Schema */
+  req?: LightweightSchema<TReq>
+  /** 响应Schema */
+  res?: LightweightSchema<TRes>
+  /** 超时时间（毫秒），覆盖服务器的apiTimeout，为0时不超时 */
+  timeout?: number
+}
+
+/**
+ * 监听消息时的选项
+ */
+export interface LightweightMsgOptions<TMsg = any> {
+  /** 消息Schema */
+  schema?: LightweightSchema<TMsg>
+}
+
 /**
  * 解析后的服务输入
  */
@@ -114,6 +205,28 @@ export interface LightweightMsgInput<T extends LightweightServiceType = Lightwei
   data: T["msg"][keyof T["msg"]]
 }
 
+/**
+ * 轻量级API错误
+ *
+ * 请求校验失败时 `code` 为 `INVALID_REQUEST`，`type` 为 `ClientError`，
+ * `issues` 列出每个问题的 `path`（JSONPath）、`expected`（期望类型描述）和 `received`（实际值，undefined时在JSON中省略）
+ *
+ * 客户端协议指纹与服务端不一致时 `code` 为 `PROTOCOL_MISMATCH`，`protocol` 中为双方的指纹
+ */
+export interface LightweightApiError {
+  message: string
+  code?: string
+  type?: string
+  /** 校验问题列表 */
+  issues?: LightweightValidationIssue[]
+  /** 协议不一致时双方的协议指纹 */
+  protocol?: { server: string; client: string }
+  /** 是否可以稍后重试，如服务器正在停止时的SERVER_CLOSING */
+  retryable?: boolean
+  /** 建议的重试等待时间（毫秒），如被限流时的RATE_LIMITED */
+  retryAfter?: number
+}
+
 /**
  * 轻量级API返回
  */
@@ -125,34 +238,83 @@ export type LightweightApiReturn<Res = any> =
     }
   | {
       isSucc: false
-      err: {
-        message: string
-        code?: string
-        type?: string
-      }
+      err: LightweightApiError
       sn?: number
     }
 
+/**
+ * 批量请求中的一次API调用
+ */
+export interface LightweightBatchCall<T extends LightweightServiceType = LightweightServiceType> {
+  apiName: LightweightApiName<T>
+  req: any
+  /** 序号，原样返回在对应的结果中，不传时为数组下标 */
+  sn?: number
+}
+
+/**
+ * 数据发送结果
+ */
+export type LightweightSendResult = { isSucc: true } | { isSucc: false; errMsg: string }
+
+/**
+ * 优雅停止结果
+ */
+export interface LightweightGracefulStopResult {
+  /** 在超时前完成的API调用数 */
+  completed: number
+  /** 超时后被强制中断的API调用数 */
+  cutOff: number
+}
+
+/**
+ * 自动实现API的结果
+ */
+export interface LightweightAutoImplementResult {
+  /** 已实现的API */
+  succ: string[]
+  /** 协议中已声明但没有处理器的API */
+  missing: string[]
+  /** 没有对应API的文件（相对于API目录） */
+  unmatched: string[]
+  /** 加载失败的文件 */
+  fail: Array<{ file: string; error: string }>
+}
+
+/**
+ * 进程内调用选项
+ */
+export interface LightweightLocalCallOptions {
+  /** 连接ID，默认自动生成 */
+  connId?: string
+  /** 客户端IP，默认127.0.0.1 */
+  clientIp?: string
+  /** 额外的上下文数据，如模拟的httpReq */
+  extra?: Record<string, any>
+}
+
 /**
  * API处理器类型
  */
-export type LightweightApiHandler<TReq = any, TRes = any> = (
-  req: TReq,
-  context: LightweightCallContext
-) => Promise<TRes> | TRes
+export type LightweightApiHandler<
+  TReq = any,
+  TRes = any,
+  C extends object = Record<string, any>,
+> = (req: TReq, context: LightweightCallContext<C>) => Promise<TRes> | TRes
 
 /**
  * 消息处理器类型
  */
-export type LightweightMsgHandler<TMsg = any> = (
+export type LightweightMsgHandler<TMsg = any, C extends object = Record<string, any>> = (
   msg: TMsg,
-  context: LightweightCallContext
+  context: LightweightCallContext<C>
 ) => Promise<void> | void
 
 /**
  * 调用上下文
+ * C为自定义上下文数据的类型，由服务器的第二个泛型参数指定
  */
-export interface LightweightCallContext {
+export interface LightweightCallContext<C extends object = Record<string, any>> {
   /** 连接ID */
   connId: string
   /** 客户端IP */
@@ -161,6 +323,10 @@ export interface LightweightCallContext {
   startTime: number
   /** 额外的上下文数据 */
   extra?: Record<string, any>
+  /** 自定义上下文数据，如登录用户，通常在preApiCall流程中写入 */
+  state: C
+  /** API超时或客户端断开时触发，可用于取消数据库查询等耗时操作 */
+  signal?: AbortSignal
   /** 日志记录器 */
   logger: {
     log: (...args: any[]) => void
@@ -173,34 +339,122 @@ export interface LightweightCallContext {
 /**
  * 中间件函数类型
  */
-export type LightweightMiddleware<T = any> = (
+export type LightweightMiddleware<T = any, C extends object = Record<string, any>> = (
   data: T,
-  context: LightweightCallContext,
+  context: LightweightCallContext<C>,
   next: () => Promise<void>
 ) => Promise<void> | void
 
+/**
+ * API名称
+ */
+export type LightweightApiName<T extends LightweightServiceType> = Extract<keyof T["api"], string>
+
+/**
+ * 消息名称
+ */
+export type LightweightMsgName<T extends LightweightServiceType> = Extract<keyof T["msg"], string>
+
+/**
+ * preApiCall流程数据，按apiName区分，判断apiName后req为对应API的请求类型
+ */
+export type LightweightPreApiCallData<
+  T extends LightweightServiceType = LightweightServiceType,
+  K extends LightweightApiName<T> = LightweightApiName<T>,
+> = { [P in K]: { apiName: P; req: T["api"][P]["req"]; connId: string } }[K]
+
+/**
+ * preApiReturn流程数据，按apiName区分
+ */
+export type LightweightPreApiReturnData<
+  T extends LightweightServiceType = LightweightServiceType,
+  K extends LightweightApiName<T> = LightweightApiName<T>,
+> = { [P in K]: { apiName: P; res: T["api"][P]["res"]; connId: string } }[K]
+
+/**
+ * postApiCall流程数据，按apiName区分
+ */
+export type LightweightPostApiCallData<
+  T extends LightweightServiceType = LightweightServiceType,
+  K extends LightweightApiName<T> = LightweightApiName<T>,
+> = {
+  [P in K]: { apiName: P; req: T["api"][P]["req"]; res: T["api"][P]["res"]; connId: string }
+}[K]
+
+/**
+ * preMsgReceive和preMsgSend流程数据，按msgName区分
+ */
+export type LightweightMsgFlowData<
+  T extends LightweightServiceType = LightweightServiceType,
+  K extends LightweightMsgName<T> = LightweightMsgName<T>,
+> = { [P in K]: { msgName: P; msg: T["msg"][P]; connId: string } }[K]
+
 /**
  * 轻量级流程定义
+ * 流程执行时自定义上下文数据可能还未写入，因此state为Partial<C>
  */
-export interface LightweightFlows<T extends LightweightServiceType = LightweightServiceType> {
+export interface LightweightFlows<
+  T extends LightweightServiceType = LightweightServiceType,
+  C extends object = Record<string, any>,
+> {
   /** 连接建立后 */
-  onConnect?: LightweightMiddleware<{ connId: string; clientIp: string }>
+  onConnect?: LightweightMiddleware<{ connId: string; clientIp: string }, Partial<C>>
   /** 连接断开后 */
-  onDisconnect?: LightweightMiddleware<{ connId: string; reason?: string }>
-  /** 接收数据前 */
-  preReceiveData?: LightweightMiddleware<{ data: any; connId: string }>
-  /** 发送数据前 */
-  preSendData?: LightweightMiddleware<{ data: any; connId: string }>
+  onDisconnect?: LightweightMiddleware<{ connId: string; reason?: string }, Partial<C>>
+  /** 接收数据前，data为解析前的原始数据（文本或二进制），可改写 */
+  preReceiveData?: LightweightMiddleware<{ data: string | Uint8Array; connId: string }, Partial<C>>
+  /** 发送数据前，data为已序列化的数据（文本或二进制），可改写 */
+  preSendData?: LightweightMiddleware<{ data: string | Uint8Array; connId: string }, Partial<C>>
   /** API调用前 */
-  preApiCall?: LightweightMiddleware<{ apiName: string; req: any; connId: string }>
+  preApiCall?: LightweightMiddleware<LightweightPreApiCallData<T>, Partial<C>>
   /** API返回前 */
-  preApiReturn?: LightweightMiddleware<{ apiName: string; res: any; connId: string }>
+  preApiReturn?: LightweightMiddleware<LightweightPreApiReturnData<T>, Partial<C>>
   /** API调用后 */
-  postApiCall?: LightweightMiddleware<{ apiName: string; req: any; res: any; connId: string }>
+  postApiCall?: LightweightMiddleware<LightweightPostApiCallData<T>, Partial<C>>
   /** 消息接收前 */
-  preMsgReceive?: LightweightMiddleware<{ msgName: string; msg: any; connId: string }>
+  preMsgReceive?: LightweightMiddleware<LightweightMsgFlowData<T>, Partial<C>>
   /** 消息发送前 */
-  preMsgSend?: LightweightMiddleware<{ msgName: string; msg: any; connId: string }>
+  preMsgSend?: LightweightMiddleware<LightweightMsgFlowData<T>, Partial<C>>
+}
+
+/**
+ * 流程对应的数据类型
+ */
+export type LightweightFlowData<
+  K extends keyof LightweightFlows,
+  T extends LightweightServiceType = LightweightServiceType,
+> = NonNullable<LightweightFlows<T>[K]> extends LightweightMiddleware<infer D> ? D : never
+
+/**
+ * 轻量级流程中间件链，每个流程一条
+ */
+export type LightweightFlowChains<
+  T extends LightweightServiceType = LightweightServiceType,
+  C extends object = Record<string, any>,
+> = {
+  [K in keyof LightweightFlows<T, C>]-?: LightweightFlow<LightweightFlowData<K, T>, Partial<C>>
+}
+
+/**
+ * 单个API的流程，只在调用该API时执行
+ */
+export interface LightweightApiFlows<
+  T extends LightweightServiceType,
+  K extends LightweightApiName<T>,
+  C extends object = Record<string, any>,
+> {
+  /** API调用前 */
+  preApiCall(
+    middleware: LightweightMiddleware<LightweightPreApiCallData<T, K>, Partial<C>>
+  ): LightweightApiFlows<T, K, C>
+  /** API返回前 */
+  preApiReturn(
+    middleware: LightweightMiddleware<LightweightPreApiReturnData<T, K>, Partial<C>>
+  ): LightweightApiFlows<T, K, C>
+  /** API调用后 */
+  postApiCall(
+    middleware: LightweightMiddleware<LightweightPostApiCallData<T, K>, Partial<C>>
+  ): LightweightApiFlows<T, K, C>
 }
 
 /**
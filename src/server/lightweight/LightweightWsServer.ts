@@ -0,0 +1,466 @@
+import * as http from "http"
+import * as https from "https"
+import * as net from "net"
+import WebSocket from "ws"
+import {
+  LightweightConnection,
+  LightweightServer,
+  LightweightServerStatus,
+} from "./LightweightServer"
+import {
+  LightweightServiceType,
+  LightweightServerOptions,
+  LightweightCallContext,
+  LightweightSendResult,
+} from "./LightweightTypes"
+import { PROTOCOL_FINGERPRINT_HEADER } from "./RuntimeProtocolGenerator"
+
+/**
+ * 轻量级WebSocket连接类
+ * 长连接，在整个连接期间保存在服务器的connections中
+ */
+export class LightweightWsConnection extends LightweightConnection {
+  readonly ws: WebSocket
+  readonly httpReq: http.IncomingMessage
+
+  /** 心跳检测：上次ping之后是否收到过pong */
+  isAlive = true
+  /** 客户端最近发送的帧类型，文本帧为json，二进制帧为binary；推送消息时使用相同的帧类型 */
+  serializationMode?: "json" | "binary"
+
+  constructor(options: { id: string; ip: string; ws: WebSocket; httpReq: http.IncomingMessage }) {
+    super(options.id, options.ip)
+    this.ws = options.ws
+    this.httpReq = options.httpReq
+  }
+
+  get status(): string {
+    switch (this.ws.readyState) {
+      case WebSocket.CONNECTING:
+        return "OPENING"
+      case WebSocket.OPEN:
+        return "OPENED"
+      case WebSocket.CLOSING:
+        return "CLOSING"
+      default:
+        return "CLOSED"
+    }
+  }
+
+  /**
+   * 发送数据
+   * 字符串以文本帧发送，Uint8Array以二进制帧发送
+   */
+  sendData(data: string | Uint8Array): Promise<LightweightSendResult> {
+    return new Promise(resolve => {
+      if (this.ws.readyState !== WebSocket.OPEN) {
+        resolve({ isSucc: false, errMsg: `WebSocket is not open: ${this.id}` })
+        return
+      }
+
+      this.ws.send(typeof data === "string" ? data : Buffer.from(data), err => {
+        if (err) {
+          resolve({ isSucc: false, errMsg: err.message || "WebSocket send failed" })
+        } else {
+          resolve({ isSucc: true })
+        }
+      })
+    })
+  }
+
+  close(reason?: string): void {
+    if (this.ws.readyState !== WebSocket.OPEN && this.ws.readyState !== WebSocket.CONNECTING) {
+      return
+    }
+
+    this.ws.close(1000, reason)
+  }
+}
+
+/**
+ * 轻量级WebSocket服务器选项
+ */
+export interface LightweightWsServerOptions extends LightweightServerOptions {
+  /** 监听端口 */
+  port: number
+  /** HTTPS选项（启用后为WSS） */
+  https?: {
+    key: string | Buffer
+    cert: string | Buffer
+  }
+  /** WebSocket路径，默认接受任意路径 */
+  path?: string
+  /** 心跳间隔，为0时不检测心跳 */
+  heartbeatInterval?: number
+  /** 单条消息大小限制 */
+  maxPayload?: number
+}
+
+/**
+ * 轻量级WebSocket服务器
+ * 长连接传输，支持API调用（以sn匹配请求和响应）和双向消息推送
+ *
+ * 客户端 -> 服务端：`{ type: "api" | "msg", serviceName, data, sn? }`
+ * 服务端 -> 客户端：API返回为 `{ ...LightweightApiReturn, sn }`，消息为 `{ type: "msg", serviceName, data }`
+ */
+export class LightweightWsServer<
+  T extends LightweightServiceType = LightweightServiceType,
+  C extends object = Record<string, any>,
+> extends LightweightServer<T, C> {
+  private httpServer?: http.Server | https.Server
+  private wsServer?: WebSocket.Server
+  private heartbeatTimer?: ReturnType<typeof setInterval>
+  private readonly serverOptions: LightweightWsServerOptions &
+    Required<Pick<LightweightWsServerOptions, "port" | "heartbeatInterval" | "maxPayload">>
+
+  constructor(options: Partial<LightweightWsServerOptions> = {}) {
+    super(options)
+
+    this.serverOptions = {
+      port: 3000,
+      heartbeatInterval: 30000,
+      maxPayload: 10 * 1024 * 1024, // 10MB
+      ...options,
+    }
+  }
+
+  /**
+   * 启动WebSocket服务器
+   */
+  async start(): Promise<void> {
+    if (this.httpServer) {
+      throw new Error("Server already started")
+    }
+
+    this._status = LightweightServerStatus.Opening
+
+    return new Promise((resolve, reject) => {
+      this.debug(`Starting ${this.serverOptions.https ? "WSS" : "WS"} server...`)
+
+      // 创建底层HTTP服务器，由ws处理upgrade
+      this.httpServer = this.serverOptions.https
+        ? https.createServer(this.serverOptions.https)
+        : http.createServer()
+
+      this.wsServer = new WebSocket.Server({
+        server: this.httpServer,
+        path: this.serverOptions.path,
+        maxPayload: this.serverOptions.maxPayload,
+      })
+      this.wsServer.on("connection", (ws, req) => {
+        this.handleConnection(ws, req).catch(error => {
+          console.error("WebSocket connection handling error:", error)
+        })
+      })
+
+      this.httpServer.listen(this.serverOptions.port, () => {
+        this._status = LightweightServerStatus.Opened
+        this.startHeartbeat()
+        this.debug(`Server started at port ${this.serverOptions.port}`)
+        resolve()
+      })
+
+      this.httpServer.on("error", error => {
+        this._status = LightweightServerStatus.Closed
+        reject(error)
+      })
+    })
+  }
+
+  /**
+   * 停止WebSocket服务器
+   */
+  async stop(): Promise<void> {
+    if (!this.httpServer) {
+      return
+    }
+
+    this._status = LightweightServerStatus.Closing
+    this.stopHeartbeat()
+
+    // 关闭所有长连接
+    for (const connection of Array.from(this.connections.values())) {
+      connection.close("Server stopped")
+    }
+
+    await new Promise<void>(resolve => {
+      this.wsServer!.close(() => resolve())
+    })
+
+    return new Promise<void>((resolve, reject) => {
+      this.httpServer!.close(error => {
+        this._status = LightweightServerStatus.Closed
+        this.httpServer = undefined
+        this.wsServer = undefined
+
+        if (error) {
+          reject(error)
+        } else {
+          this.debug("Server stopped")
+          resolve()
+        }
+      })
+    })
+  }
+
+  /**
+   * 处理新的WebSocket连接
+   */
+  private async handleConnection(ws: WebSocket, req: http.IncomingMessage): Promise<void> {
+    const connId = this.generateConnectionId()
+    const clientIp = this.getClientIp(req)
+
+    // 协议指纹校验：浏览器无法设置WebSocket请求头，因此也支持 `?protocol=` 查询参数
+    const protocolError = this.checkProtocolFingerprint(this.getClientProtocolFingerprint(req))
+    if (protocolError) {
+      ws.send(JSON.stringify({ isSucc: false, err: protocolError }), () => {
+        ws.close(1008, "PROTOCOL_MISMATCH")
+      })
+      return
+    }
+
+    const connection = new LightweightWsConnection({ id: connId, ip: clientIp, ws, httpReq: req })
+
+    ws.on("pong", () => {
+      connection.isAlive = true
+    })
+
+    ws.on("message", data => {
+      this.handleMessage(connection, data).catch(error => {
+        console.error(`Message handling error for ${connId}:`, error)
+      })
+    })
+
+    ws.on("close", (code, reason) => {
+      this.onDisconnect(connId, reason || `Code ${code}`).catch(error => {
+        console.error(`Disconnect handling error for ${connId}:`, error)
+      })
+    })
+
+    ws.on("error", error => {
+      this.debug(`WebSocket error on ${connId}:`, error.message)
+    })
+
+    await this.onConnect(connId, clientIp, connection)
+  }
+
+  /**
+   * 处理收到的数据帧
+   */
+  private async handleMessage(
+    connection: LightweightWsConnection,
+    data: WebSocket.Data
+  ): Promise<void> {
+    // 文本帧为JSON，二进制帧交给协议生成器反序列化
+    const isText = typeof data === "string"
+    connection.serializationMode = isText ? "json" : "binary"
+    const context = this.createWsCallContext(connection)
+
+    const raw = await this.runPreReceiveData(
+      isText ? (data as string) : this.toUint8Array(data),
+      context
+    )
+    if (raw === undefined) {
+      context.logger.debug("Message canceled by preReceiveData flow")
+      return
+    }
+
+    const input = this.parseServerInput(raw)
+    if (!input) {
+      await this.sendFrame(
+        connection,
+        context,
+        this.protocolGenerator.serialize(
+          {
+            isSucc: false,
+            err: { message: "Invalid input data", code: "INVALID_INPUT", type: "ClientError" },
+          },
+          isText ? "json" : "binary"
+        )
+      )
+      return
+    }
+
+    if (input.type === "msg") {
+      await this.handleMsgCall(input.serviceName as keyof T["msg"], input.data, context)
+      return
+    }
+
+    const result = await this.handleApiCall(
+      input.serviceName as keyof T["api"],
+      input.data,
+      context
+    )
+
+    // 按请求的帧类型返回
+    await this.sendFrame(
+      connection,
+      context,
+      this.protocolGenerator.serialize({ ...result, sn: input.sn }, isText ? "json" : "binary")
+    )
+  }
+
+  /**
+   * 执行preSendData流程后发送数据帧
+   */
+  private async sendFrame(
+    connection: LightweightWsConnection,
+    context: LightweightCallContext<C>,
+    data: string | Uint8Array
+  ): Promise<void> {
+    const payload = await this.runPreSendData(data, context)
+    if (payload === undefined) {
+      context.logger.debug("Send canceled by preSendData flow")
+      return
+    }
+
+    const sendResult = await connection.sendData(payload)
+    if (!sendResult.isSucc) {
+      context.logger.warn(`Send data failed: ${sendResult.errMsg}`)
+    }
+  }
+
+  /**
+   * 启动心跳检测
+   */
+  private startHeartbeat(): void {
+    if (!this.serverOptions.heartbeatInterval) {
+      return
+    }
+
+    this.heartbeatTimer = setInterval(() => {
+      for (const connection of Array.from(this.connections.values()) as LightweightWsConnection[]) {
+        if (!connection.isAlive) {
+          this.debug(`Heartbeat timeout: ${connection.id}`)
+          connection.ws.terminate()
+          continue
+        }
+
+        connection.isAlive = false
+        connection.ws.ping()
+      }
+    }, this.serverOptions.heartbeatInterval)
+  }
+
+  /**
+   * 停止心跳检测
+   */
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer)
+      this.heartbeatTimer = undefined
+    }
+  }
+
+  /**
+   * 转换二进制帧数据
+   */
+  private toUint8Array(data: WebSocket.Data): Uint8Array {
+    if (Array.isArray(data)) {
+      return new Uint8Array(Buffer.concat(data))
+    }
+    if (data instanceof ArrayBuffer) {
+      return new Uint8Array(data)
+    }
+    return new Uint8Array(data as Buffer)
+  }
+
+  /**
+   * 获取客户端IP，开启trustProxy时优先使用代理请求头
+   */
+  private getClientIp(req: http.IncomingMessage): string {
+    if (!this.options.trustProxy) {
+      return req.socket.remoteAddress || "0.0.0.0"
+    }
+
+    const forwarded = req.headers["x-forwarded-for"] as string
+    if (forwarded) {
+      return forwarded.split(",")[0].trim()
+    }
+
+    const realIp = req.headers["x-real-ip"] as string
+    if (realIp) {
+      return realIp
+    }
+
+    return req.socket.remoteAddress || "0.0.0.0"
+  }
+
+  /**
+   * 获取客户端在握手请求中携带的协议指纹
+   */
+  private getClientProtocolFingerprint(req: http.IncomingMessage): string | undefined {
+    const header = req.headers[PROTOCOL_FINGERPRINT_HEADER.toLowerCase()] as string | undefined
+    if (header) {
+      return header
+    }
+
+    const queryIndex = (req.url || "").indexOf("?")
+    if (queryIndex === -1) {
+      return undefined
+    }
+    return new URLSearchParams(req.url!.slice(queryIndex + 1)).get("protocol") || undefined
+  }
+
+  /**
+   * 生成连接ID
+   */
+  private generateConnectionId(): string {
+    return `ws_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+  }
+
+  /**
+   * 创建WebSocket调用上下文
+   */
+  private createWsCallContext(connection: LightweightWsConnection): LightweightCallContext<C> {
+    const connId = connection.id
+
+    return {
+      connId,
+      clientIp: connection.ip,
+      startTime: Date.now(),
+      signal: connection.signal,
+      extra: {
+        ws: connection.ws,
+        httpReq: connection.httpReq,
+        userAgent: connection.httpReq.headers["user-agent"],
+      },
+      state: {} as C,
+      logger: {
+        log: (...args) => console.log(`[WS ${connId}]`, ...args),
+        warn: (...args) => console.warn(`[WS ${connId}]`, ...args),
+        error: (...args) => console.error(`[WS ${connId}]`, ...args),
+        debug: (...args) => this.options.debug && console.debug(`[WS ${connId}]`, ...args),
+      },
+    }
+  }
+
+  /**
+   * 获取服务器信息
+   */
+  getServerInfo() {
+    return {
+      status: this.status,
+      // 监听端口为0时返回实际分配的端口
+      port: (this.httpServer?.address() as net.AddressInfo | null)?.port ?? this.serverOptions.port,
+      https: !!this.serverOptions.https,
+      path: this.serverOptions.path,
+      connections: this.connections.size,
+      protocolStats: this.getProtocolStats(),
+      options: {
+        heartbeatInterval: this.serverOptions.heartbeatInterval,
+        maxPayload: this.serverOptions.maxPayload,
+      },
+    }
+  }
+}
+
+/**
+ * 创建轻量级WebSocket服务器的便捷函数
+ */
+export function createLightweightWsServer<
+  T extends LightweightServiceType,
+  C extends object = Record<string, any>,
+>(options?: Partial<LightweightWsServerOptions>): LightweightWsServer<T, C> {
+  return new LightweightWsServer<T, C>(options)
+}
@@ -1,4 +1,43 @@
-import { LightweightServiceType, LightweightServiceMap, RuntimeProtocol, LightweightProtocolOptions } from "./LightweightTypes"
+import * as crypto from "crypto"
+import * as fs from "fs"
+import { ServiceProto } from "tsrpc-proto"
+import {
+  LightweightServiceType,
+  LightweightServiceMap,
+  RuntimeProtocol,
+  LightweightProtocolOptions,
+  LightweightValidateFunction,
+  LightweightValidationIssue,
+  LightweightIdStrategy,
+  LightweightProtocolLock
+} from "./LightweightTypes"
+import { LightweightBinaryCodec, LightweightPayloadHeader } from "./LightweightBinaryCodec"
+import { LightweightSchema } from "./LightweightSchema"
+import { generateServiceProto } from "./LightweightServiceProto"
+
+/**
+ * 验证器：类型守卫、返回问题列表的验证函数或Schema
+ */
+export type LightweightValidatorLike<T> = ((data: any) => data is T) | LightweightValidateFunction | LightweightSchema<T>
+
+/**
+ * 客户端携带协议指纹的请求头
+ */
+export const PROTOCOL_FINGERPRINT_HEADER = 'X-TSRPC-Protocol'
+
+/**
+ * 协议错误
+ * 服务ID冲突、与协议锁不一致等注册阶段的错误
+ */
+export class LightweightProtocolError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'SERVICE_ID_COLLISION' | 'SERVICE_ID_MISMATCH' | 'SERVICE_NOT_PINNED' | 'INVALID_PROTOCOL_LOCK'
+  ) {
+    super(message)
+    this.name = 'LightweightProtocolError'
+  }
+}
 
 /**
  * 运行时协议生成器
@@ -8,12 +47,21 @@ export class RuntimeProtocolGenerator<T extends LightweightServiceType = Lightwe
   private serviceMap: LightweightServiceMap
   private protocol: RuntimeProtocol<T>
   private options: Required<LightweightProtocolOptions>
+  /** 协议锁中固定的服务ID */
+  private pinnedIds?: { api: Record<string, number>; msg: Record<string, number>; reserved: Set<number> }
+  private binaryCodec = new LightweightBinaryCodec()
+  /** 缓存的TSRPC协议，注册服务后失效 */
+  private serviceProto?: ServiceProto<any>
+  /** 缓存的协议指纹，注册服务后失效 */
+  private fingerprint?: string
 
   constructor(options: LightweightProtocolOptions = {}) {
     this.options = {
       enableValidation: options.enableValidation ?? true,
       debug: options.debug ?? false,
       serializationMode: options.serializationMode ?? 'auto',
+      idStrategy: options.idStrategy ?? 'sequential',
+      schema: options.schema ?? { api: {}, msg: {} },
       customValidators: options.customValidators ?? {}
     }
 
@@ -32,83 +80,248 @@ export class RuntimeProtocolGenerator<T extends LightweightServiceType = Lightwe
       validators: {
         api: {} as any,
         msg: {} as any
+      },
+      schemas: {
+        api: {} as any,
+        msg: {} as any
       }
     }
+
+    if (typeof this.options.idStrategy === 'object') {
+      this.pinnedIds = this.loadProtocolLock(this.options.idStrategy.lock)
+    }
+
+    this.registerServiceSchema()
+  }
+
+  /**
+   * 读取协议锁
+   */
+  private loadProtocolLock(lock: LightweightProtocolLock | string): NonNullable<RuntimeProtocolGenerator['pinnedIds']> {
+    if (typeof lock === 'string') {
+      try {
+        lock = JSON.parse(fs.readFileSync(lock, 'utf-8')) as LightweightProtocolLock
+      } catch (error: any) {
+        throw new LightweightProtocolError(`Failed to read protocol lock: ${error.message}`, 'INVALID_PROTOCOL_LOCK')
+      }
+    }
+
+    const pinnedIds = { api: {} as Record<string, number>, msg: {} as Record<string, number>, reserved: new Set<number>() }
+    for (const service of lock.services ?? []) {
+      if (pinnedIds.reserved.has(service.id)) {
+        throw new LightweightProtocolError(`Duplicate service ID in protocol lock: ${service.id}`, 'INVALID_PROTOCOL_LOCK')
+      }
+      pinnedIds[service.type][service.name] = service.id
+      pinnedIds.reserved.add(service.id)
+    }
+    return pinnedIds
+  }
+
+  /**
+   * 按ID策略为服务分配ID，并检查冲突
+   */
+  private allocateServiceId(serviceName: string, type: 'api' | 'msg'): number {
+    const strategy = this.options.idStrategy
+    const mode = typeof strategy === 'object' ? strategy.fallback : strategy
+    let serviceId: number | undefined
+
+    if (this.pinnedIds) {
+      serviceId = this.pinnedIds[type][serviceName]
+      if (serviceId === undefined && !mode) {
+        throw new LightweightProtocolError(`${type} "${serviceName}" is not pinned in the protocol lock`, 'SERVICE_NOT_PINNED')
+      }
+    }
+
+    if (serviceId === undefined) {
+      if (mode === 'hash') {
+        serviceId = hashServiceName(`${type}:${serviceName}`)
+        if (this.pinnedIds?.reserved.has(serviceId)) {
+          throw new LightweightProtocolError(
+            `Hashed ID ${serviceId} of ${type} "${serviceName}" collides with an ID reserved in the protocol lock`,
+            'SERVICE_ID_COLLISION'
+          )
+        }
+      } else {
+        // 跳过已使用和协议锁中保留的ID
+        while (this.getServiceNameById(this.serviceMap.nextId) || this.pinnedIds?.reserved.has(this.serviceMap.nextId)) {
+          this.serviceMap.nextId++
+        }
+        serviceId = this.serviceMap.nextId++
+      }
+    }
+
+    const existing = this.getServiceNameById(serviceId)
+    if (existing) {
+      const pinned = this.pinnedIds?.[type][serviceName] === serviceId
+      throw new LightweightProtocolError(
+        pinned
+          ? `Pinned ID ${serviceId} of ${type} "${serviceName}" is already used by ${existing.type} "${existing.name}"`
+          : `Service ID ${serviceId} of ${type} "${serviceName}" collides with ${existing.type} "${existing.name}"`,
+        pinned ? 'SERVICE_ID_MISMATCH' : 'SERVICE_ID_COLLISION'
+      )
+    }
+
+    return serviceId
+  }
+
+  /**
+   * 根据ID查找已注册的服务
+   */
+  private getServiceNameById(serviceId: number): { name: string; type: 'api' | 'msg' } | undefined {
+    const apiName = this.serviceMap.id2ApiName[serviceId]
+    if (apiName !== undefined) {
+      return { name: apiName, type: 'api' }
+    }
+    const msgName = this.serviceMap.id2MsgName[serviceId]
+    if (msgName !== undefined) {
+      return { name: msgName, type: 'msg' }
+    }
+    return undefined
+  }
+
+  /**
+   * 导出协议锁，写入文件后可通过 `idStrategy: { type: 'pinned', lock }` 固定服务ID
+   */
+  getProtocolLock(): LightweightProtocolLock {
+    const services: LightweightProtocolLock['services'] = [
+      ...Object.entries(this.serviceMap.apiName2Id).map(([name, id]) => ({ id, name, type: 'api' as const })),
+      ...Object.entries(this.serviceMap.msgName2Id).map(([name, id]) => ({ id, name, type: 'msg' as const }))
+    ]
+    return { version: 1, services: services.sort((a, b) => a.id - b.id) }
+  }
+
+  /**
+   * 注册服务Schema中声明的所有API和消息
+   */
+  private registerServiceSchema(): void {
+    const { api, msg } = this.options.schema
+    for (const apiName of Object.keys(api)) {
+      this.registerApi(apiName, api[apiName])
+    }
+    for (const msgName of Object.keys(msg)) {
+      this.registerMsg(msgName, msg[msgName])
+    }
   }
 
   /**
    * 注册API服务
+   * 重复注册时返回已有ID，如果提供了验证器则以新的为准
    */
   registerApi<K extends keyof T['api']>(
     apiName: K,
     validator?: {
-      req?: (data: any) => data is T['api'][K]['req']
-      res?: (data: any) => data is T['api'][K]['res']
+      req?: LightweightValidatorLike<T['api'][K]['req']>
+      res?: LightweightValidatorLike<T['api'][K]['res']>
     }
   ): number {
     const apiNameStr = apiName as string
+    this.serviceProto = undefined
+    this.fingerprint = undefined
+
+    let serviceId = this.serviceMap.apiName2Id[apiNameStr]
+    if (serviceId === undefined) {
+      serviceId = this.allocateServiceId(apiNameStr, 'api')
+      this.serviceMap.apiName2Id[apiNameStr] = serviceId
+      this.serviceMap.id2ApiName[serviceId] = apiNameStr
+
+      // 添加到协议信息
+      if (!this.protocol.apiNames.includes(apiName)) {
+        this.protocol.apiNames.push(apiName)
+      }
 
-    // 如果已经注册过，返回现有ID
-    if (this.serviceMap.apiName2Id[apiNameStr] !== undefined) {
-      return this.serviceMap.apiName2Id[apiNameStr]
-    }
-
-    const serviceId = this.serviceMap.nextId++
-    this.serviceMap.apiName2Id[apiNameStr] = serviceId
-    this.serviceMap.id2ApiName[serviceId] = apiNameStr
-
-    // 添加到协议信息
-    if (!this.protocol.apiNames.includes(apiName)) {
-      this.protocol.apiNames.push(apiName)
+      this.debug(`注册API: ${apiNameStr} -> ID: ${serviceId}`)
     }
 
     // 设置验证器
-    if (validator && this.options.enableValidation) {
-      if (!this.protocol.validators) {
-        this.protocol.validators = { api: {} as any, msg: {} as any }
+    if (validator) {
+      const schemas = this.getSchemas()
+      const apiSchemas: {
+        req?: LightweightSchema<T['api'][K]['req']>
+        res?: LightweightSchema<T['api'][K]['res']>
+      } = { ...schemas.api[apiName] }
+      if (validator.req instanceof LightweightSchema) {
+        apiSchemas.req = validator.req
+      }
+      if (validator.res instanceof LightweightSchema) {
+        apiSchemas.res = validator.res
+      }
+      schemas.api[apiName] = apiSchemas
+
+      if (this.options.enableValidation) {
+        if (!this.protocol.validators) {
+          this.protocol.validators = { api: {} as any, msg: {} as any }
+        }
+        this.protocol.validators.api[apiName] = {
+          ...this.protocol.validators.api[apiName],
+          ...(validator.req && { req: this.toValidateFunction(validator.req) }),
+          ...(validator.res && { res: this.toValidateFunction(validator.res) })
+        }
       }
-      this.protocol.validators.api[apiName] = validator
     }
 
-    this.debug(`注册API: ${apiNameStr} -> ID: ${serviceId}`)
     return serviceId
   }
 
   /**
    * 注册消息服务
+   * 重复注册时返回已有ID，如果提供了验证器则以新的为准
    */
   registerMsg<K extends keyof T['msg']>(
     msgName: K,
-    validator?: (data: any) => data is T['msg'][K]
+    validator?: LightweightValidatorLike<T['msg'][K]>
   ): number {
     const msgNameStr = msgName as string
+    this.serviceProto = undefined
+    this.fingerprint = undefined
+
+    let serviceId = this.serviceMap.msgName2Id[msgNameStr]
+    if (serviceId === undefined) {
+      serviceId = this.allocateServiceId(msgNameStr, 'msg')
+      this.serviceMap.msgName2Id[msgNameStr] = serviceId
+      this.serviceMap.id2MsgName[serviceId] = msgNameStr
+
+      // 添加到协议信息
+      if (!this.protocol.msgNames.includes(msgName)) {
+        this.protocol.msgNames.push(msgName)
+      }
 
-    // 如果已经注册过，返回现有ID
-    if (this.serviceMap.msgName2Id[msgNameStr] !== undefined) {
-      return this.serviceMap.msgName2Id[msgNameStr]
-    }
-
-    const serviceId = this.serviceMap.nextId++
-    this.serviceMap.msgName2Id[msgNameStr] = serviceId
-    this.serviceMap.id2MsgName[serviceId] = msgNameStr
-
-    // 添加到协议信息
-    if (!this.protocol.msgNames.includes(msgName)) {
-      this.protocol.msgNames.push(msgName)
+      this.debug(`注册消息: ${msgNameStr} -> ID: ${serviceId}`)
     }
 
     // 设置验证器
-    if (validator && this.options.enableValidation) {
-      if (!this.protocol.validators) {
-        this.protocol.validators = { api: {} as any, msg: {} as any }
+    if (validator) {
+      if (validator instanceof LightweightSchema) {
+        this.getSchemas().msg[msgName] = validator
+      }
+
+      if (this.options.enableValidation) {
+        if (!this.protocol.validators) {
+          this.protocol.validators = { api: {} as any, msg: {} as any }
+        }
+        this.protocol.validators.msg[msgName] = this.toValidateFunction(validator)
       }
-      this.protocol.validators.msg[msgName] = validator
     }
 
-    this.debug(`注册消息: ${msgNameStr} -> ID: ${serviceId}`)
     return serviceId
   }
 
+  /**
+   * 获取已注册的Schema
+   */
+  private getSchemas(): NonNullable<RuntimeProtocol<T>['schemas']> {
+    if (!this.protocol.schemas) {
+      this.protocol.schemas = { api: {} as any, msg: {} as any }
+    }
+    return this.protocol.schemas
+  }
+
+  /**
+   * 把Schema转换为验证函数
+   */
+  private toValidateFunction<V>(validator: LightweightValidatorLike<V>): LightweightValidateFunction {
+    return validator instanceof LightweightSchema ? (data: any) => validator.validate(data) : validator
+  }
+
   /**
    * 根据服务名称获取服务ID
    */
@@ -138,26 +351,7 @@ export class RuntimeProtocolGenerator<T extends LightweightServiceType = Lightwe
     apiName: K,
     data: any
   ): data is T['api'][K]['req'] {
-    if (!this.options.enableValidation) {
-      return true
-    }
-
-    const validator = this.protocol.validators?.api[apiName]?.req
-    if (validator) {
-      const isValid = validator(data)
-      if (!isValid) {
-        this.debug(`API请求验证失败: ${String(apiName)}`, data)
-      }
-      return isValid
-    }
-
-    // 如果没有验证器，使用自定义验证器
-    const customValidator = this.options.customValidators[apiName as string]?.req
-    if (customValidator) {
-      return customValidator(data)
-    }
-
-    return true
+    return this.checkRequest(apiName, data).length === 0
   }
 
   /**
@@ -167,49 +361,87 @@ export class RuntimeProtocolGenerator<T extends LightweightServiceType = Lightwe
     apiName: K,
     data: any
   ): data is T['api'][K]['res'] {
+    return this.checkResponse(apiName, data).length === 0
+  }
+
+  /**
+   * 验证消息数据
+   */
+  validateMessage<K extends keyof T['msg']>(
+    msgName: K,
+    data: any
+  ): data is T['msg'][K] {
+    return this.checkMessage(msgName, data).length === 0
+  }
+
+  /**
+   * 校验请求数据，返回所有问题，为空表示通过
+   */
+  checkRequest<K extends keyof T['api']>(apiName: K, data: any): LightweightValidationIssue[] {
     if (!this.options.enableValidation) {
-      return true
+      return []
     }
 
-    const validator = this.protocol.validators?.api[apiName]?.res
-    if (validator) {
-      const isValid = validator(data)
-      if (!isValid) {
-        this.debug(`API响应验证失败: ${String(apiName)}`, data)
-      }
-      return isValid
+    // 如果没有验证器，使用自定义验证器
+    const validator =
+      this.protocol.validators?.api[apiName]?.req ?? this.options.customValidators[apiName as string]?.req
+    const issues = this.runValidator(validator, data, `${String(apiName)} request`)
+    if (issues.length) {
+      this.debug(`API请求验证失败: ${String(apiName)}`, issues)
+    }
+    return issues
+  }
+
+  /**
+   * 校验响应数据，返回所有问题，为空表示通过
+   */
+  checkResponse<K extends keyof T['api']>(apiName: K, data: any): LightweightValidationIssue[] {
+    if (!this.options.enableValidation) {
+      return []
     }
 
     // 如果没有验证器，使用自定义验证器
-    const customValidator = this.options.customValidators[apiName as string]?.res
-    if (customValidator) {
-      return customValidator(data)
+    const validator =
+      this.protocol.validators?.api[apiName]?.res ?? this.options.customValidators[apiName as string]?.res
+    const issues = this.runValidator(validator, data, `${String(apiName)} response`)
+    if (issues.length) {
+      this.debug(`API响应验证失败: ${String(apiName)}`, issues)
     }
-
-    return true
+    return issues
   }
 
   /**
-   * 验证消息数据
+   * 校验消息数据，返回所有问题，为空表示通过
    */
-  validateMessage<K extends keyof T['msg']>(
-    msgName: K,
-    data: any
-  ): data is T['msg'][K] {
+  checkMessage<K extends keyof T['msg']>(msgName: K, data: any): LightweightValidationIssue[] {
     if (!this.options.enableValidation) {
-      return true
+      return []
     }
 
-    const validator = this.protocol.validators?.msg[msgName]
-    if (validator) {
-      const isValid = validator(data)
-      if (!isValid) {
-        this.debug(`消息验证失败: ${String(msgName)}`, data)
-      }
-      return isValid
+    const issues = this.runValidator(this.protocol.validators?.msg[msgName], data, `${String(msgName)} message`)
+    if (issues.length) {
+      this.debug(`消息验证失败: ${String(msgName)}`, issues)
+    }
+    return issues
+  }
+
+  /**
+   * 执行验证函数，返回false时转换为根路径上的一个问题
+   */
+  private runValidator(
+    validator: LightweightValidateFunction | undefined,
+    data: any,
+    expected: string
+  ): LightweightValidationIssue[] {
+    if (!validator) {
+      return []
     }
 
-    return true
+    const result = validator(data)
+    if (Array.isArray(result)) {
+      return result
+    }
+    return result ? [] : [{ path: '$', expected, received: data }]
   }
 
   /**
@@ -228,87 +460,91 @@ export class RuntimeProtocolGenerator<T extends LightweightServiceType = Lightwe
 
   /**
    * 序列化数据
+   * - json：返回JSON字符串
+   * - binary：返回首字节为 `LightweightPayloadHeader.Binary` 的二进制数据，支持 Date、Uint8Array、bigint、undefined
+   * - auto：数据包含JSON无法表示的值或体积较大时使用binary，否则使用json
    */
   serialize(data: any, type: 'json' | 'binary' | 'auto' = this.options.serializationMode): string | Uint8Array {
     if (type === 'auto') {
-      // 根据数据大小和复杂度自动选择序列化方式
-      const jsonStr = JSON.stringify(data)
-      if (jsonStr.length > 1024) {
+      if (LightweightBinaryCodec.requiresBinary(data)) {
         type = 'binary'
       } else {
-        type = 'json'
+        const jsonStr = JSON.stringify(data)
+        return jsonStr.length > 1024 ? this.encodeBinary(data) : jsonStr
       }
     }
 
     if (type === 'json') {
       return JSON.stringify(data)
     } else {
-      // 简单的二进制序列化（实际项目中可以使用msgpack或protobuf）
-      const jsonStr = JSON.stringify(data)
-      return new TextEncoder().encode(jsonStr)
+      return this.encodeBinary(data)
     }
   }
 
   /**
    * 反序列化数据
+   * 二进制数据根据首字节区分格式，无法识别首字节时按UTF-8 JSON解析（兼容直接发送JSON字节的客户端）
    */
   deserialize(data: string | Uint8Array): any {
     if (typeof data === 'string') {
       return JSON.parse(data)
-    } else {
-      const jsonStr = new TextDecoder().decode(data)
-      return JSON.parse(jsonStr)
     }
-  }
-
-  /**
-   * 生成兼容TSRPC的协议对象
-   */
-  generateCompatibleProtocol(): {
-    services: Array<{ id: number; name: string; type: 'api' | 'msg' }>
-    types: Record<string, any>
-  } {
-    const services: Array<{ id: number; name: string; type: 'api' | 'msg' }> = []
 
-    // 添加API服务
-    for (const [apiName, id] of Object.entries(this.serviceMap.apiName2Id)) {
-      services.push({ id, name: apiName, type: 'api' })
+    if (data[0] === LightweightPayloadHeader.Binary) {
+      return this.binaryCodec.decode(data.subarray(1))
     }
 
-    // 添加消息服务
-    for (const [msgName, id] of Object.entries(this.serviceMap.msgName2Id)) {
-      services.push({ id, name: msgName, type: 'msg' })
+    if (data[0] === LightweightPayloadHeader.Json) {
+      return JSON.parse(new TextDecoder().decode(data.subarray(1)))
     }
 
-    // 类型信息（轻量级实现，不包含详细的Schema）
-    const types: Record<string, any> = {}
+    return JSON.parse(new TextDecoder().decode(data))
+  }
 
-    // 为每个服务生成简化的类型定义
-    for (const service of services) {
-      if (service.type === 'api') {
-        types[`${service.name}/Req`] = {
-          type: 'Interface',
-          properties: [] // 运行时动态推断
-        }
-        types[`${service.name}/Res`] = {
-          type: 'Interface',
-          properties: [] // 运行时动态推断
-        }
-      } else {
-        types[`${service.name}/Msg`] = {
-          type: 'Interface',
-          properties: [] // 运行时动态推断
-        }
-      }
+  /**
+   * 二进制编码并加上格式头
+   */
+  private encodeBinary(data: any): Uint8Array {
+    const body = this.binaryCodec.encode(data)
+    const output = new Uint8Array(body.length + 1)
+    output[0] = LightweightPayloadHeader.Binary
+    output.set(body, 1)
+    return output
+  }
+
+  /**
+   * 生成兼容TSRPC的协议对象
+   * 类型由注册的Schema生成，未注册Schema的部分为Any
+   */
+  generateCompatibleProtocol(): ServiceProto<any> {
+    if (!this.serviceProto) {
+      this.serviceProto = generateServiceProto(this)
     }
+    return this.serviceProto
+  }
 
-    return { services, types }
+  /**
+   * 获取协议指纹
+   * 由服务ID、名称和Schema计算，与注册顺序无关，任何一项变化都会改变指纹
+   */
+  getProtocolFingerprint(): string {
+    if (!this.fingerprint) {
+      const proto = this.generateCompatibleProtocol()
+      const canonical = JSON.stringify({
+        services: [...proto.services].sort((a, b) => a.id - b.id),
+        types: Object.keys(proto.types).sort().map(key => [key, proto.types[key]])
+      })
+      this.fingerprint = crypto.createHash('sha256').update(canonical).digest('hex').slice(0, 16)
+    }
+    return this.fingerprint
   }
 
   /**
    * 重置协议生成器
    */
   reset(): void {
+    this.serviceProto = undefined
+    this.fingerprint = undefined
     this.serviceMap = {
       apiName2Id: {},
       id2ApiName: {},
@@ -324,8 +560,14 @@ export class RuntimeProtocolGenerator<T extends LightweightServiceType = Lightwe
       validators: {
         api: {} as any,
         msg: {} as any
+      },
+      schemas: {
+        api: {} as any,
+        msg: {} as any
       }
     }
+
+    this.registerServiceSchema()
   }
 
   /**
@@ -344,13 +586,25 @@ export class RuntimeProtocolGenerator<T extends LightweightServiceType = Lightwe
     return {
       totalApis: Object.keys(this.serviceMap.apiName2Id).length,
       totalMsgs: Object.keys(this.serviceMap.msgName2Id).length,
-      totalServices: this.serviceMap.nextId,
+      totalServices: this.protocol.apiNames.length + this.protocol.msgNames.length,
       validationEnabled: this.options.enableValidation,
       serializationMode: this.options.serializationMode
     }
   }
 }
 
+/**
+ * 计算服务名称的哈希ID（FNV-1a，取31位保证为正整数）
+ */
+function hashServiceName(key: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0) & 0x7fffffff
+}
+
 /**
  * 创建运行时协议生成器的便捷函数
  */
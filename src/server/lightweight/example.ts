@@ -1,4 +1,6 @@
 import { createLightweightHttpServer } from "./LightweightHttpServer"
+import { LightweightHttpClient } from "./LightweightHttpClient"
+import { LightweightError } from "./LightweightServer"
 import { LightweightServiceType } from "./LightweightTypes"
 
 /**
@@ -123,6 +125,14 @@ async function createExampleServer() {
     },
   })
 
+  // 单个API的流程，data.req为该API的请求类型
+  server.flowsFor("user/updateProfile").preApiCall(async (data, context, next) => {
+    if (data.req.email !== undefined && !data.req.email.includes("@")) {
+      throw new LightweightError("Invalid email", "INVALID_EMAIL", "ClientError")
+    }
+    await next()
+  })
+
   // 实现用户相关API
   server.implementApi("user/login", async (req, context) => {
     context.logger.log("用户登录请求:", req.username)
@@ -233,16 +243,11 @@ async function createExampleServer() {
  * 客户端测试示例
  */
 async function testClient() {
-  const baseUrl = "http://localhost:3000/api"
+  const client = new LightweightHttpClient<MyServiceType>({ server: "http://localhost:3000/api" })
 
   // 测试用户登录
   console.log("=== 测试用户登录 ===")
-  const loginResponse = await fetch(`${baseUrl}/user/login`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ username: "admin", password: "123456" }),
-  })
-  const loginResult = await loginResponse.json()
+  const loginResult = await client.callApi("user/login", { username: "admin", password: "123456" })
   console.log("登录结果:", loginResult)
 
   if (!loginResult.isSucc) {
@@ -250,47 +255,26 @@ async function testClient() {
     return
   }
 
-  const token = loginResult.res.token
+  const headers = { Authorization: loginResult.res.token }
 
   // 测试获取用户信息
   console.log("\n=== 测试获取用户信息 ===")
-  const profileResponse = await fetch(`${baseUrl}/user/profile`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: token,
-    },
-    body: JSON.stringify({ userId: "1" }),
-  })
-  const profileResult = await profileResponse.json()
+  const profileResult = await client.callApi("user/profile", { userId: "1" }, { headers })
   console.log("用户信息:", profileResult)
 
   // 测试商品列表
   console.log("\n=== 测试商品列表 ===")
-  const productsResponse = await fetch(`${baseUrl}/product/list`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: token,
-    },
-    body: JSON.stringify({ page: 1, size: 10 }),
-  })
-  const productsResult = await productsResponse.json()
+  const productsResult = await client.callApi("product/list", { page: 1, size: 10 }, { headers })
   console.log("商品列表:", productsResult)
 
   // 测试发送消息
   console.log("\n=== 测试发送消息 ===")
-  const msgResponse = await fetch(`${baseUrl}/chat/message?type=msg`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      userId: "1",
-      username: "admin",
-      message: "Hello, World!",
-      timestamp: Date.now(),
-    }),
+  const msgResult = await client.sendMsg("chat/message", {
+    userId: "1",
+    username: "admin",
+    message: "Hello, World!",
+    timestamp: Date.now(),
   })
-  const msgResult = await msgResponse.json()
   console.log("消息发送结果:", msgResult)
 }
 
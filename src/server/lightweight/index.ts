@@ -9,17 +9,45 @@ export * from './LightweightTypes'
 // 运行时协议生成器
 export * from './RuntimeProtocolGenerator'
 
+// 运行时Schema
+export * from './LightweightSchema'
+
+// OpenAPI导出
+export * from './LightweightOpenApi'
+
+// TSRPC协议生成
+export * from './LightweightServiceProto'
+
+// 二进制编解码器
+export * from './LightweightBinaryCodec'
+
+// 中间件链
+export * from './LightweightFlow'
+
+// 限流
+export * from './LightweightRateLimit'
+
+// JSON-RPC 2.0
+export * from './LightweightJsonRpc'
+
 // 轻量级服务器基类
 export * from './LightweightServer'
 
 // 轻量级HTTP服务器
 export * from './LightweightHttpServer'
 
+// 轻量级WebSocket服务器
+export * from './LightweightWsServer'
+
+// 轻量级HTTP客户端
+export * from './LightweightHttpClient'
+
 // 使用示例
 export * from './example'
 
 // 便捷函数
 import { createLightweightHttpServer } from './LightweightHttpServer'
+import { createLightweightWsServer } from './LightweightWsServer'
 import { createRuntimeProtocol } from './RuntimeProtocolGenerator'
 import { LightweightServiceType } from './LightweightTypes'
 
@@ -28,6 +56,11 @@ import { LightweightServiceType } from './LightweightTypes'
  */
 export const createServer = createLightweightHttpServer
 
+/**
+ * 创建轻量级WebSocket服务器的便捷函数
+ */
+export const createWsServer = createLightweightWsServer
+
 /**
  * 创建协议生成器的便捷函数
  */
@@ -0,0 +1,95 @@
+import { assert } from "chai"
+import { createLightweightHttpServer } from "../../src/server/lightweight/LightweightHttpServer"
+import { schema } from "../../src/server/lightweight/LightweightSchema"
+import { LightweightServiceType } from "../../src/server/lightweight/LightweightTypes"
+
+interface TestService extends LightweightServiceType {
+  api: {
+    "math/add": {
+      req: { a: number; b: number }
+      res: { sum: number }
+    }
+    "test/slow": {
+      req: { ms: number }
+      res: {}
+    }
+  }
+  msg: {}
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(() => resolve(), ms))
+
+function createServer(batch: { maxSize?: number; sequential?: boolean } = {}) {
+  const server = createLightweightHttpServer<TestService>({ port: 0, jsonHostPath: "/api", batch })
+  server.implementApi("math/add", async req => ({ sum: req.a + req.b }), {
+    req: schema.object({ a: schema.number(), b: schema.number() }),
+  })
+  server.implementApi("test/slow", async req => {
+    await sleep(req.ms)
+    return {}
+  })
+  return server
+}
+
+async function postBatch(
+  server: ReturnType<typeof createServer>,
+  body: any[]
+): Promise<{ status: number; body: any }> {
+  const res = await server.handleFetch(
+    new Request("http://localhost/api/batch", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+  )
+  const text = await res.text()
+  return { status: res.status, body: text ? JSON.parse(text) : undefined }
+}
+
+describe("Lightweight batch calls", function () {
+  it("returns results in order with matching sn", async function () {
+    const server = createServer()
+    const ret = await postBatch(server, [
+      { apiName: "math/add", req: { a: 1, b: 2 }, sn: 10 },
+      { apiName: "math/add", req: { a: 1 } },
+      { apiName: "not/exist", req: {}, sn: 12 },
+      { req: {} },
+    ])
+
+    assert.strictEqual(ret.status, 200)
+    assert.deepStrictEqual(
+      ret.body.map((v: any) => [v.sn, v.isSucc, v.isSucc ? v.res : v.err.code]),
+      [
+        [10, true, { sum: 3 }],
+        [1, false, "INVALID_REQUEST"],
+        [12, false, "HANDLER_NOT_FOUND"],
+        [3, false, "INVALID_BATCH_CALL"],
+      ]
+    )
+    assert.strictEqual(ret.body[3].err.type, "ClientError")
+  })
+
+  it("runs calls sequentially when configured", async function () {
+    const server = createServer({ sequential: true })
+    const order: number[] = []
+    server.flowsFor("test/slow").preApiCall(async (data, context, next) => {
+      await next()
+      order.push(data.req.ms)
+    })
+
+    await postBatch(server, [
+      { apiName: "test/slow", req: { ms: 30 } },
+      { apiName: "test/slow", req: { ms: 0 } },
+    ])
+    assert.deepStrictEqual(order, [30, 0])
+  })
+
+  it("rejects batches over maxSize", async function () {
+    const server = createServer({ maxSize: 1 })
+    const ret = await postBatch(server, [
+      { apiName: "math/add", req: { a: 1, b: 2 } },
+      { apiName: "math/add", req: { a: 1, b: 2 } },
+    ])
+    assert.strictEqual(ret.status, 413)
+  })
+})
@@ -0,0 +1,71 @@
+import { assert } from "chai"
+import { LightweightBinaryCodec } from "../../src/server/lightweight/LightweightBinaryCodec"
+
+describe("LightweightBinaryCodec", function () {
+  const codec = new LightweightBinaryCodec()
+  const roundTrip = (value: any) => codec.decode(codec.encode(value))
+
+  it("Date", function () {
+    const date = new Date("2024-01-02T03:04:05.678Z")
+    const ret = roundTrip({ date })
+    assert.instanceOf(ret.date, Date)
+    assert.strictEqual(ret.date.getTime(), date.getTime())
+  })
+
+  it("Uint8Array", function () {
+    const ret = roundTrip({ buf: new Uint8Array([0, 1, 254, 255]) })
+    assert.instanceOf(ret.buf, Uint8Array)
+    assert.deepStrictEqual(Array.from(ret.buf), [0, 1, 254, 255])
+  })
+
+  it("bigint", function () {
+    const values = [
+      BigInt(0),
+      BigInt(1),
+      BigInt(-1),
+      BigInt("18446744073709551617"),
+      BigInt("-1180591620717411303424"),
+    ]
+    for (const value of values) {
+      assert.strictEqual(roundTrip(value), value)
+    }
+  })
+
+  it("undefined", function () {
+    const ret = roundTrip({ a: undefined, arr: [undefined, 1] })
+    assert.isTrue(Object.prototype.hasOwnProperty.call(ret, "a"))
+    assert.strictEqual(ret.a, undefined)
+    assert.deepStrictEqual(ret.arr, [undefined, 1])
+  })
+
+  it("negative integers", function () {
+    for (const value of [-1, -32, -33, -128, -129, -32768, -32769, -(2 ** 31), -(2 ** 40)]) {
+      assert.strictEqual(roundTrip(value), value)
+    }
+  })
+
+  it("floats", function () {
+    for (const value of [0.5, -1.25, Math.PI, 1e300, -1e-300, Number.MAX_SAFE_INTEGER + 0.5]) {
+      assert.strictEqual(roundTrip(value), value)
+    }
+  })
+
+  it("nested objects and arrays", function () {
+    const value = { a: 1, b: "str", c: [true, false, null], d: { e: { f: "中文" } } }
+    assert.deepStrictEqual(roundTrip(value), value)
+  })
+
+  it("__proto__ key does not modify the prototype", function () {
+    const value = JSON.parse('{"__proto__":{"isAdmin":true}}')
+    const ret = roundTrip(value)
+
+    assert.strictEqual(Object.getPrototypeOf(ret), Object.prototype)
+    assert.isUndefined(({} as any).isAdmin)
+    assert.deepStrictEqual(Object.keys(ret), ["__proto__"])
+    assert.deepStrictEqual(Object.getOwnPropertyDescriptor(ret, "__proto__")!.value, {
+      isAdmin: true,
+    })
+    assert.isUndefined(Object.getOwnPropertyDescriptor(ret, "isAdmin"))
+    assert.notStrictEqual((ret as any).isAdmin, true)
+  })
+})
@@ -0,0 +1,67 @@
+import { assert } from "chai"
+import { createLightweightHttpServer } from "../../src/server/lightweight/LightweightHttpServer"
+import { LightweightError } from "../../src/server/lightweight/LightweightServer"
+import { LightweightServiceType } from "../../src/server/lightweight/LightweightTypes"
+
+interface TestService extends LightweightServiceType {
+  api: {
+    "math/add": {
+      req: { a: number; b: number }
+      res: { sum: number }
+    }
+  }
+  msg: {}
+}
+
+function createServer() {
+  const server = createLightweightHttpServer<TestService>({ port: 0 })
+  server.implementApi("math/add", async req => ({ sum: req.a + req.b }))
+  return server
+}
+
+describe("Lightweight flows", function () {
+  it("runs preApiCall middlewares in Koa order", async function () {
+    const server = createServer()
+    const order: string[] = []
+    server.flows.preApiCall.push(async (data, context, next) => {
+      order.push("a:before")
+      await next()
+      order.push("a:after")
+    })
+    server.flows.preApiCall.push(async (data, context, next) => {
+      order.push("b:before")
+      await next()
+      order.push("b:after")
+    })
+
+    const ret = await server.callApiLocal("math/add", { a: 1, b: 2 })
+    assert.deepStrictEqual(ret, { isSucc: true, res: { sum: 3 } })
+    assert.deepStrictEqual(order, ["a:before", "b:before", "b:after", "a:after"])
+  })
+
+  it("returns FLOW_CANCELED when next is not called", async function () {
+    const server = createServer()
+    server.flows.preApiCall.push(async () => {})
+
+    const ret = await server.callApiLocal("math/add", { a: 1, b: 2 })
+    assert.isFalse(ret.isSucc)
+    assert.strictEqual(!ret.isSucc && ret.err.code, "FLOW_CANCELED")
+  })
+
+  it("returns the LightweightError thrown by a middleware", async function () {
+    const server = createServer()
+    server.flowsFor("math/add").preApiCall(async (data, context, next) => {
+      if (data.req.a < 0) {
+        throw new LightweightError("Negative", "NEGATIVE", "ClientError")
+      }
+      await next()
+    })
+
+    const ret = await server.callApiLocal("math/add", { a: -1, b: 2 })
+    assert.deepStrictEqual(ret, {
+      isSucc: false,
+      err: { message: "Negative", code: "NEGATIVE", type: "ClientError" },
+    })
+    assert.isTrue((await server.callApiLocal("math/add", { a: 1, b: 2 })).isSucc)
+  })
+})
@@ -0,0 +1,119 @@
+import { assert } from "chai"
+import { LightweightJsonRpcOptions } from "../../src/server/lightweight/LightweightJsonRpc"
+import { createLightweightHttpServer } from "../../src/server/lightweight/LightweightHttpServer"
+import { LightweightError } from "../../src/server/lightweight/LightweightServer"
+import { schema } from "../../src/server/lightweight/LightweightSchema"
+import { LightweightServiceType } from "../../src/server/lightweight/LightweightTypes"
+
+interface TestService extends LightweightServiceType {
+  api: {
+    "math/add": {
+      req: { a: number; b: number }
+      res: { sum: number }
+    }
+    "test/void": {
+      req: {}
+      res: void
+    }
+  }
+  msg: {
+    "chat/message": { content: string }
+  }
+}
+
+function createServer(jsonRpc: LightweightJsonRpcOptions = {}) {
+  const server = createLightweightHttpServer<TestService>({
+    port: 0,
+    jsonHostPath: "/api",
+    jsonRpc,
+  })
+  server.implementApi("math/add", async req => ({ sum: req.a + req.b }), {
+    req: schema.object({ a: schema.number(), b: schema.number() }),
+  })
+  server.implementApi("test/void", async () => {})
+  return server
+}
+
+async function postJsonRpc(
+  server: ReturnType<typeof createServer>,
+  body: any
+): Promise<{ status: number; body: any }> {
+  const res = await server.handleFetch(
+    new Request("http://localhost/api/jsonrpc", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    })
+  )
+  const text = await res.text()
+  return { status: res.status, body: text ? JSON.parse(text) : undefined }
+}
+
+describe("Lightweight JSON-RPC", function () {
+  it("maps method and params to API calls", async function () {
+    const server = createServer()
+    const ret = await postJsonRpc(server, {
+      jsonrpc: "2.0",
+      method: "math/add",
+      params: { a: 1, b: 2 },
+      id: 1,
+    })
+    assert.deepStrictEqual(ret.body, { jsonrpc: "2.0", result: { sum: 3 }, id: 1 })
+  })
+
+  it("returns null result for a handler without a return value", async function () {
+    const server = createServer()
+    const ret = await postJsonRpc(server, { jsonrpc: "2.0", method: "test/void", id: 1 })
+    assert.deepStrictEqual(ret.body, { jsonrpc: "2.0", result: null, id: 1 })
+  })
+
+  it("maps error codes", async function () {
+    const server = createServer({ errorCodes: { NEGATIVE: -32010 } })
+    server.flowsFor("math/add").preApiCall(async (data, context, next) => {
+      if (data.req.a < 0) {
+        throw new LightweightError("Negative", "NEGATIVE", "ClientError")
+      }
+      await next()
+    })
+
+    const ret = await postJsonRpc(server, [
+      { jsonrpc: "2.0", method: "math/add", params: { a: -1, b: 2 }, id: 1 },
+      { jsonrpc: "2.0", method: "math/add", params: { a: 1 }, id: 2 },
+      { jsonrpc: "2.0", method: "not/exist", id: 3 },
+      { jsonrpc: "1.0", method: "math/add", id: 4 },
+    ])
+    assert.deepStrictEqual(
+      ret.body.map((v: any) => [v.id, v.error.code]),
+      [
+        [1, -32010],
+        [2, -32602],
+        [3, -32601],
+        [4, -32600],
+      ]
+    )
+    assert.strictEqual(ret.body[0].error.data.code, "NEGATIVE")
+  })
+
+  it("sends notifications as msgs without a response", async function () {
+    const server = createServer()
+    const received: any[] = []
+    server.listenMsg("chat/message", async msg => {
+      received.push(msg)
+    })
+
+    const ret = await postJsonRpc(server, {
+      jsonrpc: "2.0",
+      method: "chat/message",
+      params: { content: "hi" },
+    })
+    assert.strictEqual(ret.status, 204)
+    assert.deepStrictEqual(received, [{ content: "hi" }])
+  })
+
+  it("returns a parse error for invalid JSON", async function () {
+    const server = createServer()
+    const ret = await postJsonRpc(server, "{bad")
+    assert.strictEqual(ret.body.error.code, -32700)
+    assert.isNull(ret.body.id)
+  })
+})
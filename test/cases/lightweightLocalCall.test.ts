@@ -0,0 +1,64 @@
+import { assert } from "chai"
+import { createLightweightHttpServer } from "../../src/server/lightweight/LightweightHttpServer"
+import { LightweightServiceType } from "../../src/server/lightweight/LightweightTypes"
+
+interface TestService extends LightweightServiceType {
+  api: {
+    "test/context": {
+      req: {}
+      res: { connId: string; clientIp: string; extra?: Record<string, any> }
+    }
+  }
+  msg: {
+    "chat/message": { content: string }
+  }
+}
+
+function createServer() {
+  const server = createLightweightHttpServer<TestService>({ port: 0 })
+  server.implementApi("test/context", async (req, context) => ({
+    connId: context.connId,
+    clientIp: context.clientIp,
+    extra: context.extra,
+  }))
+  return server
+}
+
+describe("Lightweight callApiLocal", function () {
+  it("works without starting the server", async function () {
+    const server = createServer()
+    const ret = await server.callApiLocal("test/context", {})
+
+    assert.isTrue(ret.isSucc)
+    if (ret.isSucc) {
+      assert.match(ret.res.connId, /^local_\d+$/)
+      assert.strictEqual(ret.res.clientIp, "127.0.0.1")
+      assert.isUndefined(ret.res.extra)
+    }
+  })
+
+  it("passes connId, clientIp and extra to the context", async function () {
+    const server = createServer()
+    const ret = await server.callApiLocal(
+      "test/context",
+      {},
+      { connId: "conn1", clientIp: "10.0.0.1", extra: { userAgent: "test" } }
+    )
+
+    assert.deepStrictEqual(ret, {
+      isSucc: true,
+      res: { connId: "conn1", clientIp: "10.0.0.1", extra: { userAgent: "test" } },
+    })
+  })
+
+  it("sendMsgLocal runs the msg handler", async function () {
+    const server = createServer()
+    const received: { msg: any; clientIp: string }[] = []
+    server.listenMsg("chat/message", async (msg, context) => {
+      received.push({ msg, clientIp: context.clientIp })
+    })
+
+    await server.sendMsgLocal("chat/message", { content: "hi" }, { clientIp: "10.0.0.2" })
+    assert.deepStrictEqual(received, [{ msg: { content: "hi" }, clientIp: "10.0.0.2" }])
+  })
+})
@@ -0,0 +1,115 @@
+import { assert } from "chai"
+import { createLightweightHttpServer } from "../../src/server/lightweight/LightweightHttpServer"
+import { LightweightServiceType } from "../../src/server/lightweight/LightweightTypes"
+
+interface TestService extends LightweightServiceType {
+  api: {}
+  msg: {
+    "chat/message": { content: string }
+  }
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(() => resolve(), ms))
+
+function createServer(longPolling: Record<string, any> = {}) {
+  const server = createLightweightHttpServer<TestService>({
+    port: 0,
+    jsonHostPath: "/api",
+    longPolling,
+  })
+  const connIds: string[] = []
+  const disconnects: { connId: string; reason?: string }[] = []
+  server.flows.onConnect.push(async (data, context, next) => {
+    connIds.push(data.connId)
+    await next()
+  })
+  server.flows.onDisconnect.push(async (data, context, next) => {
+    disconnects.push({ connId: data.connId, reason: data.reason })
+    await next()
+  })
+
+  const poll = async (sessionId?: string): Promise<{ sessionId: string; msgs: any[] }> => {
+    const res = await server.handleFetch(
+      new Request(`http://localhost/api/poll${sessionId ? `?sessionId=${sessionId}` : ""}`)
+    )
+    assert.strictEqual(res.status, 200)
+    return res.json()
+  }
+  return { server, connIds, disconnects, poll }
+}
+
+describe("Lightweight long polling", function () {
+  it("creates a session identified by a random token", async function () {
+    const { connIds, poll } = createServer()
+    const ret = await poll()
+
+    assert.match(ret.sessionId, /^[0-9a-f]{32}$/)
+    assert.deepStrictEqual(ret.msgs, [])
+    assert.lengthOf(connIds, 1)
+    assert.notStrictEqual(ret.sessionId, connIds[0])
+  })
+
+  it("does not accept the connection ID as sessionId", async function () {
+    const { connIds, poll } = createServer()
+    const first = await poll()
+    const ret = await poll(connIds[0])
+
+    assert.notStrictEqual(ret.sessionId, first.sessionId)
+    assert.lengthOf(connIds, 2)
+  })
+
+  it("returns queued msgs and waits for new ones", async function () {
+    const { server, connIds, poll } = createServer()
+    const { sessionId } = await poll()
+
+    await server.sendMsg(connIds[0], "chat/message", { content: "queued" })
+    assert.deepStrictEqual((await poll(sessionId)).msgs, [
+      { type: "msg", serviceName: "chat/message", data: { content: "queued" } },
+    ])
+
+    const waiting = poll(sessionId)
+    await sleep(10)
+    await server.sendMsg(connIds[0], "chat/message", { content: "pushed" })
+    const ret = await waiting
+    assert.strictEqual(ret.sessionId, sessionId)
+    assert.deepStrictEqual(
+      ret.msgs.map(v => v.data),
+      [{ content: "pushed" }]
+    )
+  })
+
+  it("returns an empty list after pollTimeout", async function () {
+    const { poll } = createServer({ pollTimeout: 20 })
+    const { sessionId } = await poll()
+    assert.deepStrictEqual((await poll(sessionId)).msgs, [])
+  })
+
+  it("a newer poll makes the older one return immediately", async function () {
+    const { server, connIds, poll } = createServer({ pollTimeout: 5000 })
+    const { sessionId } = await poll()
+
+    const older = poll(sessionId)
+    await sleep(10)
+    const newer = poll(sessionId)
+    assert.deepStrictEqual((await older).msgs, [])
+
+    await server.sendMsg(connIds[0], "chat/message", { content: "hi" })
+    assert.deepStrictEqual(
+      (await newer).msgs.map(v => v.data),
+      [{ content: "hi" }]
+    )
+  })
+
+  it("expires sessions after sessionTimeout", async function () {
+    const { server, connIds, disconnects, poll } = createServer({ sessionTimeout: 30 })
+    const { sessionId } = await poll()
+
+    await sleep(60)
+    assert.deepStrictEqual(disconnects, [{ connId: connIds[0], reason: "Session expired" }])
+    assert.isFalse((await server.sendMsg(connIds[0], "chat/message", { content: "hi" })).isSucc)
+
+    const ret = await poll(sessionId)
+    assert.notStrictEqual(ret.sessionId, sessionId)
+    assert.lengthOf(connIds, 2)
+  })
+})
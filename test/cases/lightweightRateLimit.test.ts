@@ -0,0 +1,69 @@
+import { assert } from "chai"
+import { createLightweightHttpServer } from "../../src/server/lightweight/LightweightHttpServer"
+import {
+  LightweightServerOptions,
+  LightweightServiceType,
+} from "../../src/server/lightweight/LightweightTypes"
+
+interface TestService extends LightweightServiceType {
+  api: {
+    "math/add": {
+      req: { a: number; b: number }
+      res: { sum: number }
+    }
+    "test/slow": {
+      req: { ms: number }
+      res: {}
+    }
+  }
+  msg: {}
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(() => resolve(), ms))
+
+function createServer(options: Partial<LightweightServerOptions>) {
+  const server = createLightweightHttpServer<TestService>({ port: 0, ...options })
+  server.implementApi("math/add", async req => ({ sum: req.a + req.b }))
+  server.implementApi("test/slow", async req => {
+    await sleep(req.ms)
+    return {}
+  })
+  return server
+}
+
+describe("Lightweight rate limit", function () {
+  it("returns RATE_LIMITED per client IP", async function () {
+    const server = createServer({
+      rateLimit: { rules: [{ match: "math/*", limit: 2, windowMs: 60000 }] },
+    })
+
+    for (let i = 0; i < 2; ++i) {
+      assert.isTrue((await server.callApiLocal("math/add", { a: 1, b: 2 })).isSucc)
+    }
+    const ret = await server.callApiLocal("math/add", { a: 1, b: 2 })
+    assert.isFalse(ret.isSucc)
+    if (!ret.isSucc) {
+      assert.strictEqual(ret.err.code, "RATE_LIMITED")
+      assert.isTrue(ret.err.retryable)
+      assert.isAbove(ret.err.retryAfter!, 0)
+    }
+
+    const other = await server.callApiLocal("math/add", { a: 1, b: 2 }, { clientIp: "10.0.0.2" })
+    assert.isTrue(other.isSucc)
+  })
+
+  it("keeps the concurrency slot until a timed out handler settles", async function () {
+    const server = createServer({
+      apiTimeout: 20,
+      rateLimit: { rules: [{ match: "*", maxConcurrent: 1 }] },
+    })
+
+    const first = await server.callApiLocal("test/slow", { ms: 100 })
+    assert.strictEqual(!first.isSucc && first.err.code, "TIMEOUT")
+    const second = await server.callApiLocal("test/slow", { ms: 0 })
+    assert.strictEqual(!second.isSucc && second.err.code, "RATE_LIMITED")
+
+    await sleep(120)
+    assert.isTrue((await server.callApiLocal("test/slow", { ms: 0 })).isSucc)
+  })
+})
@@ -0,0 +1,137 @@
+import { assert } from "chai"
+import { createLightweightHttpServer } from "../../src/server/lightweight/LightweightHttpServer"
+import { LightweightServiceType } from "../../src/server/lightweight/LightweightTypes"
+
+interface TestService extends LightweightServiceType {
+  api: {}
+  msg: {
+    "chat/message": { content: string }
+  }
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(() => resolve(), ms))
+
+function createServer(sse: Record<string, any> = {}) {
+  const server = createLightweightHttpServer<TestService>({ port: 0, jsonHostPath: "/api", sse })
+  const connIds: string[] = []
+  const disconnects: { connId: string; reason?: string }[] = []
+  server.flows.onConnect.push(async (data, context, next) => {
+    connIds.push(data.connId)
+    await next()
+  })
+  server.flows.onDisconnect.push(async (data, context, next) => {
+    disconnects.push({ connId: data.connId, reason: data.reason })
+    await next()
+  })
+  return { server, connIds, disconnects }
+}
+
+/** 打开SSE流，按事件读取（以空行分隔） */
+async function openSse(server: ReturnType<typeof createServer>["server"], lastEventId?: string) {
+  const res = await server.handleFetch(
+    new Request("http://localhost/api/sse", {
+      headers: lastEventId ? { "Last-Event-ID": lastEventId } : {},
+    })
+  )
+  assert.strictEqual(res.status, 200)
+  assert.include(res.headers.get("Content-Type"), "text/event-stream")
+
+  const reader = res.body!.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+  const next = async (): Promise<string> => {
+    while (!buffer.includes("\n\n")) {
+      const { value, done } = await reader.read()
+      if (done) {
+        throw new Error("SSE stream ended")
+      }
+      buffer += decoder.decode(value, { stream: true })
+    }
+    const index = buffer.indexOf("\n\n")
+    const event = buffer.slice(0, index)
+    buffer = buffer.slice(index + 2)
+    return event
+  }
+  return { next, cancel: () => reader.cancel() }
+}
+
+function parseEvent(event: string): { id: string; data: any } {
+  const lines = event.split("\n")
+  return {
+    id: lines.find(v => v.startsWith("id: "))!.slice(4),
+    data: JSON.parse(lines.find(v => v.startsWith("data: "))!.slice(6)),
+  }
+}
+
+describe("Lightweight SSE", function () {
+  it("sends msgs with token-based event IDs and heartbeats", async function () {
+    const { server, connIds } = createServer({ heartbeatInterval: 20 })
+    const stream = await openSse(server)
+    assert.strictEqual(await stream.next(), ": connected")
+    await sleep(10)
+
+    await server.sendMsg(connIds[0], "chat/message", { content: "hi" })
+    const event = parseEvent(await stream.next())
+    assert.match(event.id, /^[0-9a-f]{32}:1$/)
+    assert.notInclude(event.id, connIds[0])
+    assert.deepStrictEqual(event.data, {
+      type: "msg",
+      serviceName: "chat/message",
+      data: { content: "hi" },
+    })
+
+    assert.strictEqual(await stream.next(), ": ping")
+    await stream.cancel()
+  })
+
+  it("runs onDisconnect when the stream is canceled", async function () {
+    const { server, connIds, disconnects } = createServer()
+    const stream = await openSse(server)
+    await stream.next()
+    await sleep(10)
+
+    await stream.cancel()
+    await sleep(10)
+    assert.deepStrictEqual(disconnects, [{ connId: connIds[0], reason: "SSE stream closed" }])
+    assert.isFalse((await server.sendMsg(connIds[0], "chat/message", { content: "hi" })).isSucc)
+  })
+
+  it("resumes the connection and replays missed msgs with Last-Event-ID", async function () {
+    const { server, connIds } = createServer()
+    const first = await openSse(server)
+    await first.next()
+    await sleep(10)
+
+    await server.sendMsg(connIds[0], "chat/message", { content: "1" })
+    await server.sendMsg(connIds[0], "chat/message", { content: "2" })
+    const { id } = parseEvent(await first.next())
+    await first.cancel()
+    await sleep(10)
+
+    const second = await openSse(server, id)
+    assert.strictEqual(await second.next(), ": connected")
+    const replayed = parseEvent(await second.next())
+    assert.strictEqual(replayed.id, id.replace(/:1$/, ":2"))
+    assert.deepStrictEqual(replayed.data.data, { content: "2" })
+    await sleep(10)
+    assert.deepStrictEqual(connIds, [connIds[0], connIds[0]])
+    await second.cancel()
+  })
+
+  it("does not resume with a guessed connection ID", async function () {
+    const { server, connIds } = createServer()
+    const first = await openSse(server)
+    await first.next()
+    await sleep(10)
+    await server.sendMsg(connIds[0], "chat/message", { content: "1" })
+    await first.cancel()
+    await sleep(10)
+
+    const second = await openSse(server, `${connIds[0]}:0`)
+    await second.next()
+    await sleep(10)
+    assert.lengthOf(connIds, 2)
+    assert.notStrictEqual(connIds[1], connIds[0])
+    await second.cancel()
+  })
+})
@@ -0,0 +1,33 @@
+import { assert } from "chai"
+import { createLightweightHttpServer } from "../../src/server/lightweight/LightweightHttpServer"
+import { LightweightServiceType } from "../../src/server/lightweight/LightweightTypes"
+
+interface TestService extends LightweightServiceType {
+  api: {
+    "test/slow": {
+      req: { ms: number }
+      res: {}
+    }
+  }
+  msg: {}
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(() => resolve(), ms))
+
+describe("Lightweight API timeout", function () {
+  it("returns TIMEOUT and aborts context.signal", async function () {
+    const server = createLightweightHttpServer<TestService>({ port: 0, apiTimeout: 20 })
+    let signal: AbortSignal | undefined
+    server.implementApi("test/slow", async (req, context) => {
+      signal = context.signal
+      await sleep(req.ms)
+      return {}
+    })
+
+    const ret = await server.callApiLocal("test/slow", { ms: 100 })
+    assert.isFalse(ret.isSucc)
+    assert.strictEqual(!ret.isSucc && ret.err.code, "TIMEOUT")
+    assert.isTrue(signal!.aborted)
+    assert.isTrue((await server.callApiLocal("test/slow", { ms: 0 })).isSucc)
+  })
+})
@@ -0,0 +1,107 @@
+import { assert } from "chai"
+import { TSBuffer } from "tsbuffer"
+import { TransportDataProto } from "tsrpc-proto"
+import { createLightweightHttpServer } from "../../src/server/lightweight/LightweightHttpServer"
+import { LightweightError } from "../../src/server/lightweight/LightweightServer"
+import { schema } from "../../src/server/lightweight/LightweightSchema"
+import { LightweightServiceType } from "../../src/server/lightweight/LightweightTypes"
+
+interface TestService extends LightweightServiceType {
+  api: {
+    "math/add": {
+      req: { a: number; b: number }
+      res: { sum: number }
+    }
+  }
+  msg: {}
+}
+
+const transport = new TSBuffer(TransportDataProto)
+
+function createServer() {
+  const server = createLightweightHttpServer<TestService>({ port: 0, jsonHostPath: "/api" })
+  server.implementApi(
+    "math/add",
+    async req => {
+      if (req.a < 0) {
+        throw new LightweightError("Negative", "NEGATIVE", "ApiError")
+      }
+      return { sum: req.a + req.b }
+    },
+    {
+      req: schema.object({ a: schema.number(), b: schema.number() }),
+      res: schema.object({ sum: schema.number() }),
+    }
+  )
+  return server
+}
+
+/** 与tsrpc-base-client相同：请求体为ServerInputData，POST到服务根路径 */
+async function callBuffer(
+  server: ReturnType<typeof createServer>,
+  input: { serviceId: number; buffer: Uint8Array; sn?: number }
+): Promise<{ serviceId?: number; buffer?: Uint8Array; error?: any; sn?: number }> {
+  const opInput = transport.encode(input, "ServerInputData")
+  assert.isTrue(opInput.isSucc)
+
+  const res = await server.handleFetch(
+    new Request("http://localhost/api/", {
+      method: "POST",
+      headers: { "Content-Type": "application/octet-stream" },
+      body: opInput.buf!,
+    })
+  )
+  assert.strictEqual(res.status, 200)
+
+  const opOutput = transport.decode<any>(
+    new Uint8Array(await res.arrayBuffer()),
+    "ServerOutputData"
+  )
+  assert.isTrue(opOutput.isSucc)
+  return opOutput.value!
+}
+
+describe("Lightweight tsrpc-base-client binary requests", function () {
+  it("decodes ServerInputData and returns ServerOutputData", async function () {
+    const server = createServer()
+    const proto = server.getServiceProto()
+    const tsbuffer = new TSBuffer(proto.types)
+    const service = proto.services.find(v => v.name === "math/add")!
+
+    const opReq = tsbuffer.encode({ a: 1, b: 2 }, "math/Ptladd/Reqadd")
+    assert.isTrue(opReq.isSucc)
+    const output = await callBuffer(server, { serviceId: service.id, buffer: opReq.buf!, sn: 5 })
+
+    assert.strictEqual(output.serviceId, service.id)
+    assert.strictEqual(output.sn, 5)
+    assert.isUndefined(output.error)
+    const opRes = tsbuffer.decode(output.buffer!, "math/Ptladd/Resadd")
+    assert.deepStrictEqual(opRes.value, { sum: 3 })
+  })
+
+  it("returns errors in ServerOutputData", async function () {
+    const server = createServer()
+    const proto = server.getServiceProto()
+    const tsbuffer = new TSBuffer(proto.types)
+    const service = proto.services.find(v => v.name === "math/add")!
+
+    const output = await callBuffer(server, {
+      serviceId: service.id,
+      buffer: tsbuffer.encode({ a: -1, b: 2 }, "math/Ptladd/Reqadd").buf!,
+      sn: 6,
+    })
+    assert.strictEqual(output.sn, 6)
+    assert.deepStrictEqual(output.error, {
+      message: "Negative",
+      code: "NEGATIVE",
+      type: "ApiError",
+    })
+  })
+
+  it("returns INPUT_DATA_ERR for an unknown service ID", async function () {
+    const server = createServer()
+    const output = await callBuffer(server, { serviceId: 9999, buffer: new Uint8Array(0) })
+    assert.strictEqual(output.error.code, "INPUT_DATA_ERR")
+    assert.strictEqual(output.error.type, "ServerError")
+  })
+})
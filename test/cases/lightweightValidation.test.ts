@@ -0,0 +1,34 @@
+import { assert } from "chai"
+import { createLightweightHttpServer } from "../../src/server/lightweight/LightweightHttpServer"
+import { schema } from "../../src/server/lightweight/LightweightSchema"
+import { LightweightServiceType } from "../../src/server/lightweight/LightweightTypes"
+
+interface TestService extends LightweightServiceType {
+  api: {
+    "math/add": {
+      req: { a: number; b: number }
+      res: { sum: number }
+    }
+  }
+  msg: {}
+}
+
+describe("Lightweight validation", function () {
+  it("returns INVALID_REQUEST with issues", async function () {
+    const server = createLightweightHttpServer<TestService>({ port: 0 })
+    server.implementApi("math/add", async req => ({ sum: req.a + req.b }), {
+      req: schema.object({ a: schema.number(), b: schema.number() }),
+    })
+    const ret = await server.callApiLocal("math/add", { a: 1, b: "2" } as any)
+
+    assert.isFalse(ret.isSucc)
+    if (!ret.isSucc) {
+      assert.strictEqual(ret.err.code, "INVALID_REQUEST")
+      assert.strictEqual(ret.err.type, "ClientError")
+      assert.deepStrictEqual(
+        ret.err.issues!.map(v => v.path),
+        ["$.b"]
+      )
+    }
+  })
+})
@@ -0,0 +1,165 @@
+import { assert } from "chai"
+import WebSocket from "ws"
+import { LightweightBinaryCodec } from "../../src/server/lightweight/LightweightBinaryCodec"
+import {
+  createLightweightWsServer,
+  LightweightWsServer,
+} from "../../src/server/lightweight/LightweightWsServer"
+import { LightweightServiceType } from "../../src/server/lightweight/LightweightTypes"
+
+interface TestService extends LightweightServiceType {
+  api: {
+    "math/add": {
+      req: { a: number; b: number }
+      res: { sum: number }
+    }
+  }
+  msg: {
+    "chat/message": { content: string; extra?: string }
+  }
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(() => resolve(), ms))
+
+const codec = new LightweightBinaryCodec()
+
+/** 二进制帧：首字节0x01后接二进制编码 */
+function encodeBinary(data: any): Buffer {
+  return Buffer.concat([Buffer.from([0x01]), Buffer.from(codec.encode(data))])
+}
+
+function decodeFrame(data: WebSocket.Data): { isBinary: boolean; data: any } {
+  if (typeof data === "string") {
+    return { isBinary: false, data: JSON.parse(data) }
+  }
+  const buf = data as Buffer
+  assert.strictEqual(buf[0], 0x01)
+  return { isBinary: true, data: codec.decode(new Uint8Array(buf.subarray(1))) }
+}
+
+/** 连接服务器，按顺序读取收到的帧 */
+async function connect(server: LightweightWsServer<TestService>) {
+  const ws = new WebSocket(`ws://127.0.0.1:${server.getServerInfo().port}`)
+  const frames: WebSocket.Data[] = []
+  const waiters: ((data: WebSocket.Data) => void)[] = []
+  ws.on("message", data => {
+    const waiter = waiters.shift()
+    waiter ? waiter(data) : frames.push(data)
+  })
+  await new Promise((resolve, reject) => {
+    ws.once("open", resolve)
+    ws.once("error", reject)
+  })
+
+  const next = () =>
+    new Promise<{ isBinary: boolean; data: any }>(resolve => {
+      const frame = frames.shift()
+      if (frame !== undefined) {
+        resolve(decodeFrame(frame))
+      } else {
+        waiters.push(data => resolve(decodeFrame(data)))
+      }
+    })
+  return { ws, next }
+}
+
+describe("LightweightWsServer", function () {
+  let server: LightweightWsServer<TestService>
+  let connIds: string[]
+  let signals: (AbortSignal | undefined)[]
+  let disconnects: { connId: string; reason?: string }[]
+
+  beforeEach(async function () {
+    server = createLightweightWsServer<TestService>({ port: 0 })
+    server.implementApi("math/add", async req => ({ sum: req.a + req.b }))
+    connIds = []
+    signals = []
+    disconnects = []
+    server.flows.onConnect.push(async (data, context, next) => {
+      connIds.push(data.connId)
+      signals.push(context.signal)
+      await next()
+    })
+    server.flows.onDisconnect.push(async (data, context, next) => {
+      disconnects.push({ connId: data.connId, reason: data.reason })
+      await next()
+    })
+    await server.start()
+  })
+
+  afterEach(async function () {
+    await server.stop()
+  })
+
+  it("returns a text frame with sn for a text frame", async function () {
+    const { ws, next } = await connect(server)
+    ws.send(JSON.stringify({ type: "api", serviceName: "math/add", data: { a: 1, b: 2 }, sn: 7 }))
+
+    assert.deepStrictEqual(await next(), {
+      isBinary: false,
+      data: { isSucc: true, res: { sum: 3 }, sn: 7 },
+    })
+    ws.close()
+  })
+
+  it("returns a binary frame for a binary frame", async function () {
+    const { ws, next } = await connect(server)
+    ws.send(encodeBinary({ type: "api", serviceName: "math/add", data: { a: 2, b: 3 }, sn: 8 }))
+
+    const ret = await next()
+    assert.isTrue(ret.isBinary)
+    assert.deepStrictEqual(ret.data, { isSucc: true, res: { sum: 5 }, sn: 8 })
+    ws.close()
+  })
+
+  it("pushes msgs in the frame type last sent by the client", async function () {
+    const { ws, next } = await connect(server)
+    const connId = connIds[0]
+
+    ws.send(JSON.stringify({ type: "api", serviceName: "math/add", data: { a: 1, b: 2 }, sn: 1 }))
+    await next()
+    assert.isTrue(
+      (await server.sendMsg(connId, "chat/message", { content: "hi", extra: undefined })).isSucc
+    )
+    const textMsg = await next()
+    assert.isFalse(textMsg.isBinary)
+    assert.deepStrictEqual(textMsg.data, {
+      type: "msg",
+      serviceName: "chat/message",
+      data: { content: "hi" },
+    })
+
+    ws.send(encodeBinary({ type: "api", serviceName: "math/add", data: { a: 1, b: 2 }, sn: 2 }))
+    await next()
+    await server.sendMsg(connId, "chat/message", { content: "bin" })
+    const binaryMsg = await next()
+    assert.isTrue(binaryMsg.isBinary)
+    assert.strictEqual(binaryMsg.data.serviceName, "chat/message")
+    assert.deepStrictEqual(binaryMsg.data.data, { content: "bin" })
+    assert.isFalse("serviceId" in binaryMsg.data)
+    ws.close()
+  })
+
+  it("runs onDisconnect once when the client closes", async function () {
+    const { ws } = await connect(server)
+    assert.lengthOf(connIds, 1)
+
+    ws.close(1000, "bye")
+    await sleep(50)
+    assert.deepStrictEqual(disconnects, [{ connId: connIds[0], reason: "bye" }])
+  })
+
+  it("closeConnection runs onDisconnect once and aborts the connection signal", async function () {
+    const { ws } = await connect(server)
+    const connId = connIds[0]
+    const signal = signals[0]!
+    const closed = new Promise(resolve => ws.once("close", resolve))
+
+    assert.isTrue(server.closeConnection(connId, "kicked"))
+    await closed
+    await sleep(50)
+    assert.isTrue(signal.aborted)
+    assert.deepStrictEqual(disconnects, [{ connId, reason: "kicked" }])
+    assert.isFalse(server.closeConnection(connId))
+  })
+})